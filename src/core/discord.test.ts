@@ -0,0 +1,133 @@
+import { ConfigType, DiscordClient, DiscordEntitlement } from '../other/types';
+import { describe, expect, it, vi } from 'vitest';
+import { createManager } from '../test/manager';
+
+type DiscordOptions = NonNullable<ConfigType['options']>['discord'];
+
+function createDiscordManager(discord?: DiscordOptions) {
+	const { manager } = createManager({
+		premiumTiers: [{ name: 'Pro', type: 'guild', tierId: 'pro', priceCents: 500, isActive: true }],
+		options: { discord: { skus: { sku_1: { tierId: 'pro' } }, ...discord } },
+	});
+
+	return manager;
+}
+
+function createEntitlement(overrides: Partial<DiscordEntitlement> = {}): DiscordEntitlement {
+	return { id: 'ent_1', sku_id: 'sku_1', application_id: 'app_1', user_id: 'user_1', guild_id: 'guild_1', type: 8, deleted: false, ends_at: '2100-01-01T00:00:00.000Z', ...overrides };
+}
+
+describe('Discord entitlements', () => {
+	it('restores handled entitlements on backfill', async () => {
+		const manager = createDiscordManager();
+		await manager.handleDiscordEntitlement('create', createEntitlement());
+
+		const restored = createDiscordManager();
+		restored.storage = manager.storage;
+
+		await restored.entitlements.backfill();
+		restored.entitlements.stop();
+
+		expect(restored.entitlements.getGuildEntitlement('guild_1')).toMatchObject({ source: 'discord', subscriptionId: 'ent_1', tierId: 'pro' });
+	});
+
+	it('applies updates that move ends_at without dispatching another create', async () => {
+		const manager = createDiscordManager();
+
+		const listener = vi.fn();
+		manager.on('subscriptionCreate', listener);
+
+		await manager.handleDiscordEntitlement('create', createEntitlement());
+		expect(await manager.handleDiscordEntitlement('update', createEntitlement({ ends_at: '2101-01-01T00:00:00.000Z' }))).toBe(true);
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(manager.entitlements.getGuildEntitlement('guild_1')?.currentPeriodEnd).toEqual(new Date('2101-01-01T00:00:00.000Z'));
+		expect(await manager.storage.get('discordEntitlement:ent_1')).toMatchObject({ ends_at: '2101-01-01T00:00:00.000Z' });
+	});
+
+	it('handles the create again when Discord retries after a listener failed', async () => {
+		const manager = createDiscordManager();
+
+		const listener = vi.fn().mockRejectedValueOnce(new Error('Role sync failed.'));
+		manager.on('subscriptionCreate', listener);
+
+		await expect(manager.handleDiscordEntitlement('create', createEntitlement())).rejects.toMatchObject({ code: 'LISTENER_FAILED' });
+		expect(manager.entitlements.getGuildEntitlement('guild_1')).toBeNull();
+		expect(await manager.storage.get('discordEntitlement:ent_1')).toBeUndefined();
+
+		expect(await manager.handleDiscordEntitlement('create', createEntitlement())).toBe(true);
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(manager.entitlements.getGuildEntitlement('guild_1')).toMatchObject({ subscriptionId: 'ent_1' });
+		expect(await manager.discordManager.getStoredEntitlements()).toHaveLength(1);
+	});
+
+	it('forgets deleted entitlements', async () => {
+		const manager = createDiscordManager();
+
+		await manager.handleDiscordEntitlement('create', createEntitlement());
+		await manager.handleDiscordEntitlement('delete', createEntitlement());
+
+		expect(manager.entitlements.getGuildEntitlement('guild_1')).toBeNull();
+		expect(await manager.discordManager.getStoredEntitlements()).toEqual([]);
+	});
+});
+
+describe('Discord roles', () => {
+	function createClient() {
+		return {
+			addMemberRole: vi.fn<DiscordClient['addMemberRole']>().mockResolvedValue(undefined),
+			removeMemberRole: vi.fn<DiscordClient['removeMemberRole']>().mockResolvedValue(undefined),
+			resolveRoleId: vi.fn<NonNullable<DiscordClient['resolveRoleId']>>().mockImplementation(async (guildId, role) => role === 'Premium' ? `role_${guildId}` : null),
+		};
+	}
+
+	it('grants the tier roles in the subscribed guild and revokes them when premium ends', async () => {
+		const client = createClient();
+		const manager = createDiscordManager({ client, tierRoles: { pro: ['Premium', 'Missing'] } });
+
+		await manager.handleDiscordEntitlement('create', createEntitlement());
+		await vi.waitFor(() => expect(client.addMemberRole).toHaveBeenCalledWith('guild_1', 'user_1', 'role_guild_1', expect.any(String)));
+
+		await manager.handleDiscordEntitlement('delete', createEntitlement());
+		await vi.waitFor(() => expect(client.removeMemberRole).toHaveBeenCalledWith('guild_1', 'user_1', 'role_guild_1', expect.any(String)));
+
+		expect(client.addMemberRole).toHaveBeenCalledTimes(1);
+		expect(client.removeMemberRole).toHaveBeenCalledTimes(1);
+	});
+
+	it('grants the roles of user tiers in the support guild', async () => {
+		const client = createClient();
+		const { manager } = createManager({
+			premiumTiers: [{ name: 'Supporter', type: 'user', tierId: 'supporter', priceCents: 300, isActive: true }],
+			options: { discord: { client, supportGuildId: 'support', tierRoles: { supporter: ['Premium'] }, skus: { sku_1: { tierId: 'supporter' } } } },
+		});
+
+		await manager.handleDiscordEntitlement('create', createEntitlement({ guild_id: null }));
+		await vi.waitFor(() => expect(client.addMemberRole).toHaveBeenCalledWith('support', 'user_1', 'role_support', expect.any(String)));
+	});
+});
+
+describe('premium commands', () => {
+	const context = { userId: 'user_1', email: 'user@example.com', guildId: 'guild_1', guildName: 'Guild' };
+
+	it('replies with a checkout link for the chosen tier', async () => {
+		const { manager, api } = createManager();
+		api.on('POST', '/v1/checkout/sessions', () => ({ id: 'cs_1', object: 'checkout.session', url: 'https://checkout.stripe.com/c/cs_1' }));
+
+		expect(await manager.discordManager.commands.handle('subscribe', context, { tierId: 'pro', interval: 'yearly' })).toMatchObject({ buttons: [{ label: 'Checkout', url: 'https://checkout.stripe.com/c/cs_1' }] });
+		expect(await manager.discordManager.commands.handle('subscribe', { ...context, guildId: null }, { tierId: 'pro' })).toMatchObject({ content: 'Server tiers can only be purchased from within a server.', buttons: [] });
+	});
+
+	it('shows the premium of the guild and sends Discord purchases to the Discord settings', async () => {
+		const manager = createDiscordManager();
+
+		expect(await manager.discordManager.commands.handle('status', context)).toMatchObject({ content: 'You do not have an active premium subscription.', embeds: [] });
+
+		await manager.handleDiscordEntitlement('create', createEntitlement());
+
+		const status = await manager.discordManager.commands.handle('status', context);
+		expect(status.embeds).toMatchObject([{ title: 'Server Premium for Guild', fields: expect.arrayContaining([{ name: 'Tier', value: 'Pro', inline: true }, { name: 'Payment', value: 'Paid', inline: true }]) }]);
+
+		expect(await manager.discordManager.commands.handle('manage', context)).toMatchObject({ content: 'This subscription was purchased through Discord, manage it from your Discord settings.' });
+	});
+});
@@ -0,0 +1,353 @@
+import { ApplicationCommandData, BaseSubscriptionData, BillingInterval, CommandContext, CommandReply, DiscordEntitlement, DiscordSkuMapping, ErrorCode, DiscordEntitlementAction, DiscordSourcedData, Entitlement, PremiumSubcommand, PremiumTier, StripeAddon, SubscribeCommandOptions, WhatHappened, WithQuantity } from '../other/types';
+import { BillingIntervals, getBillingIntervals, stringifyError } from '../other/utils';
+import { StripeCordError, TierError } from '../other/errors';
+import { withLock } from '../other/storage';
+import { PremiumManager } from './manager';
+
+type RoleTarget = Pick<BaseSubscriptionData, 'type' | 'userId' | 'guildId'>;
+
+const IntervalLabels: Record<BillingInterval, string> = {
+	weekly: 'Weekly',
+	monthly: 'Monthly',
+	quarterly: 'Quarterly',
+	semiannual: 'Semi-annually',
+	yearly: 'Yearly',
+};
+
+export class DiscordManager {
+	public commands: DiscordCommands;
+
+	constructor (private readonly manager: PremiumManager) {
+		this.commands = new DiscordCommands(manager);
+
+		this.manager.on('subscriptionCreate', (data) => this.runSafely(this.grantRoles(data)));
+		this.manager.on('subscriptionDelete', (data) => this.runSafely(this.revokeRoles(data)));
+		this.manager.on('subscriptionCancel', (data) => this.runSafely(this.revokeRoles(data)));
+
+		this.manager.on('subscriptionTierChange', (data) => this.runSafely((async () => {
+			const oldRoles = this.getTierRoles(data.oldTier.tierId);
+			const newRoles = this.getTierRoles(data.newTier.tierId);
+
+			await this.updateRoles(data, oldRoles.filter((role) => !newRoles.includes(role)), false);
+			await this.updateRoles(data, newRoles, true);
+		})()));
+
+		this.manager.on('subscriptionAddonsUpdate', (data) => this.runSafely((async () => {
+			for (const update of data.addonUpdates) {
+				if (update.whatHappened === WhatHappened.Removed) await this.updateRoles(data, this.getAddonRoles(update.addon.addonId), false);
+				else if (update.whatHappened === WhatHappened.Added) await this.updateRoles(data, this.getAddonRoles(update.addon.addonId), true);
+			}
+		})()));
+	}
+
+	public async handleEntitlement(action: DiscordEntitlementAction, entitlement: DiscordEntitlement): Promise<boolean> {
+		const mapping = this.manager.config.options?.discord?.skus?.[entitlement.sku_id];
+		if (!mapping) {
+			this.manager.emit('debug', `No tier mapped for Discord SKU ${entitlement.sku_id}, ignoring entitlement ${entitlement.id}.`);
+			return false;
+		}
+
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === mapping.tierId);
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${mapping.tierId} (Discord SKU ${entitlement.sku_id}).`, { tierId: mapping.tierId, skuId: entitlement.sku_id });
+		else if (tierData.type === 'guild' && !entitlement.guild_id) throw new StripeCordError(ErrorCode.InvalidEntitlement, `Discord entitlement ${entitlement.id} is missing a guild ID for guild tier ${tierData.tierId}.`, { tierId: tierData.tierId, skuId: entitlement.sku_id });
+		else if (!entitlement.user_id && tierData.type === 'user') throw new StripeCordError(ErrorCode.InvalidEntitlement, `Discord entitlement ${entitlement.id} is missing a user ID for user tier ${tierData.tierId}.`, { tierId: tierData.tierId, skuId: entitlement.sku_id });
+
+		const storageKey = `discordEntitlement:${entitlement.id}`;
+		const stored = await this.manager.storage.get<DiscordEntitlement>(storageKey);
+		const hasEnded = action === 'delete' || entitlement.deleted || (!!entitlement.ends_at && new Date(entitlement.ends_at).getTime() <= Date.now());
+
+		if (hasEnded && !stored && action !== 'delete') return false;
+		else if (!hasEnded && stored && (action !== 'update' || stored.ends_at === entitlement.ends_at)) return false;
+
+		const eventData = await this.buildEntitlementData(entitlement, mapping, tierData);
+
+		if (hasEnded) {
+			await this.manager.storage.delete(storageKey);
+			await this.updateStoredIndex((ids) => ids.filter((id) => id !== entitlement.id));
+			await this.manager.dispatch('subscriptionDelete', eventData);
+		} else if (stored) {
+			// Renewals and cancellations only move ends_at, the premium itself is unchanged so no event is dispatched.
+			await this.manager.storage.set(storageKey, entitlement);
+			this.manager.entitlements.upsertFromDiscord(entitlement, eventData);
+		} else {
+			// Only stored once the listeners succeeded, otherwise Discord's retry would be ignored as already handled.
+			try {
+				await this.manager.dispatch('subscriptionCreate', eventData);
+			} catch (error) {
+				this.manager.entitlements.remove(entitlement.id);
+				throw error;
+			}
+
+			await this.manager.storage.set(storageKey, entitlement);
+			await this.updateStoredIndex((ids) => [...ids.filter((id) => id !== entitlement.id), entitlement.id]);
+		}
+
+		return true;
+	}
+
+	// Entitlements that are still running, so backfill() can restore Discord premium after a restart.
+	public async getStoredEntitlements(): Promise<DiscordSourcedData[]> {
+		const ids = await this.manager.storage.get<string[]>('discordEntitlements') ?? [];
+		const result: DiscordSourcedData[] = [];
+
+		for (const id of ids) {
+			const entitlement = await this.manager.storage.get<DiscordEntitlement>(`discordEntitlement:${id}`);
+			if (!entitlement || (entitlement.ends_at && new Date(entitlement.ends_at).getTime() <= Date.now())) continue;
+
+			const mapping = this.manager.config.options?.discord?.skus?.[entitlement.sku_id];
+			const tierData = mapping ? this.manager.config.premiumTiers.find((tier) => tier.tierId === mapping.tierId) : null;
+
+			if (mapping && tierData) result.push(await this.buildEntitlementData(entitlement, mapping, tierData));
+			else this.manager.emit('debug', `Discord SKU ${entitlement.sku_id} of entitlement ${entitlement.id} is no longer mapped to a tier, skipping it.`);
+		}
+
+		return result;
+	}
+
+	private async buildEntitlementData(entitlement: DiscordEntitlement, mapping: DiscordSkuMapping, tierData: PremiumTier): Promise<DiscordSourcedData> {
+		const stripeAddons = mapping.addons?.length ? await this.manager.stripeManager.addons.getStripeAddons() : [];
+		const addons = (mapping.addons ?? []).map((addon) => {
+			const addonData = stripeAddons.find((a) => a.addonId === addon.addonId);
+			return addonData ? { ...addonData, quantity: addon.quantity } : null;
+		}).filter((addon): addon is WithQuantity<StripeAddon> => Boolean(addon));
+
+		return {
+			type: tierData.type,
+			source: 'discord',
+			tier: tierData,
+
+			interval: 'monthly',
+			seats: 1,
+			addons,
+			featureSet: this.manager.resolveFeatureSet(tierData, addons),
+			trial: null,
+			pause: null,
+
+			userId: entitlement.user_id ?? '',
+			guildId: tierData.type === 'guild' ? entitlement.guild_id ?? null : null,
+
+			raw: { entitlement },
+		};
+	}
+
+	private async updateStoredIndex(update: (ids: string[]) => string[]): Promise<void> {
+		await withLock(this.manager.storage, 'discordEntitlements', async () => {
+			await this.manager.storage.set('discordEntitlements', update(await this.manager.storage.get<string[]>('discordEntitlements') ?? []));
+		});
+	}
+
+	public async grantRoles(data: BaseSubscriptionData): Promise<void> {
+		await this.updateRoles(data, this.getSubscriptionRoles(data), true);
+	}
+
+	public async revokeRoles(data: BaseSubscriptionData): Promise<void> {
+		await this.updateRoles(data, this.getSubscriptionRoles(data), false);
+	}
+
+	private getSubscriptionRoles(data: BaseSubscriptionData): string[] {
+		const roles = [...this.getTierRoles(data.tier.tierId)];
+		for (const addon of data.addons) roles.push(...this.getAddonRoles(addon.addonId));
+
+		return [...new Set(roles)];
+	}
+
+	private getTierRoles(tierId: string): string[] {
+		return this.manager.config.options?.discord?.tierRoles?.[tierId] ?? [];
+	}
+
+	private getAddonRoles(addonId: string): string[] {
+		return this.manager.config.options?.discord?.addonRoles?.[addonId] ?? [];
+	}
+
+	private getTargetGuildId(data: RoleTarget): string | null {
+		if (data.type === 'guild') return data.guildId;
+		else return this.manager.config.options?.discord?.supportGuildId ?? null;
+	}
+
+	private async updateRoles(data: RoleTarget, roles: string[], grant: boolean): Promise<void> {
+		const client = this.manager.config.options?.discord?.client;
+		if (!client || !roles.length) return;
+
+		const guildId = this.getTargetGuildId(data);
+		if (!guildId) {
+			this.manager.emit('debug', `Skipping role sync for user ${data.userId}, no target guild configured.`);
+			return;
+		}
+
+		for (const role of roles) {
+			const roleId = client.resolveRoleId ? await client.resolveRoleId(guildId, role) : role;
+			if (!roleId) {
+				this.manager.emit('debug', `Role ${role} could not be resolved in guild ${guildId}.`);
+				continue;
+			}
+
+			const reason = `Premium ${data.type} subscription ${grant ? 'granted' : 'revoked'}.`;
+
+			if (grant) await client.addMemberRole(guildId, data.userId, roleId, reason);
+			else await client.removeMemberRole(guildId, data.userId, roleId, reason);
+
+			this.manager.emit('debug', `${grant ? 'Granted' : 'Revoked'} role ${roleId} ${grant ? 'to' : 'from'} user ${data.userId} in guild ${guildId}.`);
+		}
+	}
+
+	private runSafely(promise: Promise<void>): void {
+		promise.catch((err) => this.manager.emit('debug', `Failed to sync Discord roles: ${stringifyError(err)}`));
+	}
+}
+
+export class DiscordCommands {
+	constructor (private readonly manager: PremiumManager) { }
+
+	// Option types follow the Discord API: 1 = subcommand, 3 = string.
+	public getCommandData(name = 'premium'): ApplicationCommandData {
+		const tierChoices = this.manager.config.premiumTiers.filter((tier) => tier.isActive).slice(0, 25).map((tier) => ({ name: `${tier.name} (${tier.type})`, value: tier.tierId }));
+		const addonChoices = this.manager.config.addons.filter((addon) => addon.isActive).slice(0, 25).map((addon) => ({ name: `${addon.name} (${addon.type})`, value: addon.addonId }));
+
+		const offeredIntervals = this.manager.config.premiumTiers.filter((tier) => tier.isActive).flatMap((tier) => getBillingIntervals(tier));
+		const intervalChoices = BillingIntervals.filter((interval) => offeredIntervals.includes(interval)).map((interval) => ({ name: IntervalLabels[interval], value: interval }));
+
+		return {
+			name,
+			description: 'Manage premium for yourself or this server.',
+			options: [
+				{
+					type: 1,
+					name: 'subscribe',
+					description: 'Get a checkout link for a premium tier.',
+					options: [
+						{ type: 3, name: 'tier', description: 'The tier to subscribe to.', required: true, choices: tierChoices },
+						...(addonChoices.length ? [{ type: 3, name: 'addon', description: 'An addon to include.', required: false, choices: addonChoices }] : []),
+						{ type: 3, name: 'interval', description: 'How often you are billed, defaults to monthly.', required: false, choices: intervalChoices },
+					],
+				},
+				{
+					type: 1,
+					name: 'status',
+					description: 'Show your current premium status.',
+				},
+				{
+					type: 1,
+					name: 'manage',
+					description: 'Get a link to manage billing and payment methods.',
+				},
+			],
+		};
+	}
+
+	public async handle(subcommand: PremiumSubcommand, context: CommandContext, options?: SubscribeCommandOptions): Promise<CommandReply> {
+		switch (subcommand) {
+			case 'subscribe': {
+				if (!options) return this.reply('Please choose a tier to subscribe to.');
+				return this.handleSubscribe(context, options);
+			}
+			case 'status': return this.handleStatus(context);
+			case 'manage': return this.handleManage(context);
+		}
+	}
+
+	public async handleSubscribe(context: CommandContext, options: SubscribeCommandOptions): Promise<CommandReply> {
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === options.tierId);
+		if (!tierData) return this.reply('That tier does not exist.');
+		else if (!context.email) return this.reply('An email address is required to subscribe.');
+		else if (tierData.type === 'guild' && !context.guildId) return this.reply('Server tiers can only be purchased from within a server.');
+
+		try {
+			const session = await this.manager.stripeManager.subscriptions.createCheckoutSession({
+				customer: { userId: context.userId, email: context.email },
+				tierId: tierData.tierId,
+
+				guildId: tierData.type === 'guild' ? context.guildId ?? undefined : undefined,
+				guildName: tierData.type === 'guild' ? context.guildName : undefined,
+
+				addons: options.addonId ? [{ addonId: options.addonId, quantity: 1 }] : [],
+				interval: options.interval ?? 'monthly',
+			});
+
+			if (!session.url) return this.reply('Failed to create a checkout link, please try again later.');
+
+			return this.reply(`Complete your purchase of **${tierData.name}** using the link below.`, {
+				buttons: [{ label: 'Checkout', url: session.url }],
+			});
+		} catch (err) {
+			this.manager.emit('debug', `Subscribe command failed for user ${context.userId}: ${stringifyError(err)}`);
+			return this.reply(err instanceof StripeCordError ? err.message : 'Failed to create a checkout link, please try again later.');
+		}
+	}
+
+	public async handleStatus(context: CommandContext): Promise<CommandReply> {
+		const entitlements = ([
+			this.manager.entitlements.getUserEntitlement(context.userId),
+			context.guildId ? this.manager.entitlements.getGuildEntitlement(context.guildId) : null,
+		] as (Entitlement | null)[]).filter((entitlement): entitlement is Entitlement => Boolean(entitlement));
+
+		if (!entitlements.length) return this.reply('You do not have an active premium subscription.');
+
+		return this.reply('', {
+			embeds: entitlements.map((entitlement) => {
+				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === entitlement.tierId);
+				const addonNames = entitlement.addons.map((addon) => `${this.manager.config.addons.find((a) => a.addonId === addon.addonId)?.name ?? addon.addonId} x${addon.quantity}`);
+				const periodEnd = entitlement.currentPeriodEnd ? `<t:${Math.floor(entitlement.currentPeriodEnd.getTime() / 1000)}:D>` : entitlement.source === 'purchase' ? 'Never' : 'Unknown';
+
+				return {
+					title: entitlement.type === 'user' ? 'Your Premium' : `Server Premium${context.guildName ? ` for ${context.guildName}` : ''}`,
+					color: entitlement.status === 'past_due' ? 0xED4245 : 0x57F287,
+					fields: [
+						{ name: 'Tier', value: tierData?.name ?? entitlement.tierId, inline: true },
+						{ name: 'Billing', value: this.getBillingLabel(entitlement), inline: true },
+						...(tierData?.seats ? [{ name: 'Seats', value: `${entitlement.seats}`, inline: true }] : []),
+						{ name: 'Addons', value: addonNames.length ? addonNames.join(', ') : 'None' },
+						{ name: entitlement.cancelAtPeriodEnd || entitlement.source === 'purchase' ? 'Ends On' : 'Renews On', value: periodEnd, inline: true },
+						{ name: 'Payment', value: this.getPaymentState(entitlement), inline: true },
+					],
+				};
+			}),
+		});
+	}
+
+	public async handleManage(context: CommandContext): Promise<CommandReply> {
+		const guildEntitlement = context.guildId ? this.manager.entitlements.getGuildEntitlement(context.guildId) : null;
+		const entitlement = this.manager.entitlements.getUserEntitlement(context.userId) ?? (guildEntitlement?.userId === context.userId ? guildEntitlement : null);
+		if (!entitlement) return this.reply('You do not have a subscription to manage.');
+		else if (entitlement.source === 'discord') return this.reply('This subscription was purchased through Discord, manage it from your Discord settings.');
+		else if (entitlement.source === 'gift') return this.reply('This subscription was gifted, there is nothing to manage until it runs out.');
+		else if (entitlement.source === 'purchase') return this.reply('This is a lifetime purchase, there is nothing to manage.');
+
+		try {
+			const subscription = await this.manager.stripeManager.stripe.subscriptions.retrieve(entitlement.subscriptionId);
+			const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+
+			const session = await this.manager.stripeManager.customers.createBillingPortalSession({ customerId });
+			return this.reply('Manage your subscription, invoices and payment methods using the link below.', {
+				buttons: [{ label: 'Manage Billing', url: session.url }],
+			});
+		} catch (err) {
+			this.manager.emit('debug', `Manage command failed for user ${context.userId}: ${stringifyError(err)}`);
+			return this.reply('Failed to create a billing portal link, please try again later.');
+		}
+	}
+
+	private getBillingLabel(entitlement: Entitlement): string {
+		if (entitlement.source === 'gift') return 'Gift';
+		else if (entitlement.source === 'purchase') return 'Lifetime';
+		else return IntervalLabels[entitlement.interval];
+	}
+
+	private getPaymentState(entitlement: Entitlement): string {
+		if (entitlement.source === 'gift') return 'Gifted';
+
+		switch (entitlement.status) {
+			case 'past_due': return 'Payment overdue';
+			case 'trialing': return 'Free trial';
+			default: return entitlement.cancelAtPeriodEnd ? 'Cancelled' : 'Paid';
+		}
+	}
+
+	private reply(content: string, extra?: Partial<Omit<CommandReply, 'content'>>): CommandReply {
+		return {
+			content,
+			ephemeral: extra?.ephemeral ?? true,
+			embeds: extra?.embeds ?? [],
+			buttons: extra?.buttons ?? [],
+		};
+	}
+}
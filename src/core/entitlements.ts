@@ -0,0 +1,223 @@
+import { BaseSubscriptionData, DiscordEntitlement, Entitlement, Gift, Purchase } from '../other/types';
+import { stringifyError } from '../other/utils';
+import { PremiumManager } from './manager';
+import Stripe from 'stripe';
+
+const PremiumStatuses: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+const GiftExpiryInterval = 1000 * 60; // 1 minute
+
+export class EntitlementManager {
+	private bySubscription: Map<string, Entitlement> = new Map();
+	private byGuild: Map<string, Entitlement> = new Map();
+	private byUser: Map<string, Entitlement> = new Map();
+
+	private giftExpiryTimer: NodeJS.Timeout | null = null;
+
+	constructor (private readonly manager: PremiumManager) {
+		this.manager.on('subscriptionCreate', (data) => {
+			if (data.source === 'discord') this.upsertFromDiscord(data.raw.entitlement, data);
+			else if (data.source === 'gift') this.upsertFromGift(data.raw.gift, data);
+			else if (data.source === 'purchase') this.upsertFromPurchase(data.raw.purchase, data);
+			else this.upsert(data, data.raw.subscription);
+		});
+
+		this.manager.on('subscriptionRenew', (data) => this.upsert(data, data.raw.subscription));
+		this.manager.on('subscriptionUpdate', (data) => this.upsert(data, data.raw.subscription));
+		this.manager.on('subscriptionTierChange', (data) => this.upsert({ ...data, tier: data.newTier }, data.raw.subscription));
+		this.manager.on('subscriptionAddonsUpdate', (data) => this.upsert({ ...data, addons: data.currentAddons }, data.raw.subscription));
+		this.manager.on('subscriptionPause', (data) => this.upsert(data, data.raw.subscription));
+		this.manager.on('subscriptionResume', (data) => this.upsert(data, data.raw.subscription));
+		this.manager.on('subscriptionCancel', (data) => this.remove(data.raw.subscription.id));
+		this.manager.on('subscriptionDelete', (data) => {
+			if (data.source === 'discord') this.remove(data.raw.entitlement.id);
+			else if (data.source === 'gift') this.remove(data.raw.gift.code);
+			else if (data.source === 'purchase') this.remove(data.raw.purchase.paymentIntentId);
+			else this.remove(data.raw.subscription.id);
+		});
+	}
+
+	public isGuildPremium(guildId: string): boolean {
+		return this.byGuild.has(guildId) || Boolean(this.getSlotEntitlement(guildId));
+	}
+
+	public isUserPremium(userId: string): boolean {
+		return this.byUser.has(userId);
+	}
+
+	public getGuildEntitlement(guildId: string): Entitlement<'guild'> | null {
+		return (this.byGuild.get(guildId) as Entitlement<'guild'> | undefined) || this.getSlotEntitlement(guildId);
+	}
+
+	public getUserEntitlement(userId: string): Entitlement<'user'> | null {
+		return (this.byUser.get(userId) as Entitlement<'user'> | undefined) || null;
+	}
+
+	public getAllEntitlements(): Entitlement[] {
+		return [...this.bySubscription.values()];
+	}
+
+	// Also starts expiring redeemed gifts, which keeps running until stop() is called.
+	public async backfill(): Promise<number> {
+		const subscriptions = await this.manager.stripeManager.subscriptions.getAllSubscriptions();
+		const stripeAddons = await this.manager.stripeManager.addons.getStripeAddons();
+
+		this.clear();
+
+		for (const subscription of subscriptions) {
+			if (
+				!subscription.metadata.tierId ||
+				!subscription.metadata.userId ||
+				(
+					!subscription.metadata.guildId &&
+					!subscription.metadata.isUserSub
+				)
+			) continue;
+
+			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.metadata.tierId);
+			if (!tierData) continue;
+
+			const addons = await this.manager.stripeManager.addons.getAddonsFromItems(subscription.items.data, stripeAddons) ?? [];
+			this.upsert(this.manager.stripeManager.internalBuildSubscriptionData(subscription, tierData, addons), subscription);
+		}
+
+		const purchases = await this.manager.stripeManager.purchases.getLifetimePurchases();
+
+		for (const purchase of purchases) {
+			const tierId = this.manager.config.products?.find((product) => product.productId === purchase.productId)?.tierId;
+			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === tierId);
+			if (!tierData) continue;
+
+			this.upsertFromPurchase(purchase, this.manager.stripeManager.purchases.internalBuildPurchaseData(purchase, tierData));
+		}
+
+		const gifts = await this.manager.stripeManager.subscriptions.getActiveGifts();
+
+		for (const gift of gifts) {
+			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === gift.tierId);
+			if (!tierData || !gift.endsAt || gift.endsAt.getTime() <= Date.now()) continue;
+
+			this.upsertFromGift(gift, this.manager.stripeManager.subscriptions.internalBuildGiftData(gift, tierData));
+		}
+
+		const discordEntitlements = await this.manager.discordManager.getStoredEntitlements();
+		for (const data of discordEntitlements) this.upsertFromDiscord(data.raw.entitlement, data);
+
+		const slots = await this.manager.slots.load();
+
+		this.giftExpiryTimer ??= setInterval(() => this.manager.stripeManager.subscriptions.expireGifts().catch((error) => this.manager.emit('debug', `Failed to expire gifts: ${stringifyError(error)}`)), GiftExpiryInterval).unref();
+
+		this.manager.emit('debug', `Backfilled ${this.bySubscription.size} entitlements from ${subscriptions.length} subscriptions, ${discordEntitlements.length} Discord entitlements, ${gifts.length} gifts and ${purchases.length} lifetime purchases, with ${slots} guild slots.`);
+		return this.bySubscription.size;
+	}
+
+	public stop(): void {
+		if (this.giftExpiryTimer) clearInterval(this.giftExpiryTimer);
+		this.giftExpiryTimer = null;
+	}
+
+	public clear(): void {
+		this.bySubscription.clear();
+		this.byGuild.clear();
+		this.byUser.clear();
+	}
+
+	// Guilds without premium of their own borrow it from a subscriber that assigned them a slot.
+	private getSlotEntitlement(guildId: string): Entitlement<'guild'> | null {
+		for (const slot of this.manager.slots.getGuildSlots(guildId)) {
+			const owner = this.byUser.get(slot.userId);
+			if (owner && this.manager.slots.getSlotLimit(owner)) return { ...owner, type: 'guild', guildId };
+		}
+
+		return null;
+	}
+
+	private upsert(data: BaseSubscriptionData, subscription: Stripe.Subscription): void {
+		const periodEnd = subscription.items.data[0]?.current_period_end;
+
+		this.set(data, {
+			subscriptionId: subscription.id,
+			status: subscription.status,
+			cancelAtPeriodEnd: subscription.cancel_at_period_end,
+			currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : null,
+		});
+	}
+
+	// Public for Discord updates that only move ends_at, those are applied without dispatching an event.
+	public upsertFromDiscord(discordEntitlement: DiscordEntitlement, data: BaseSubscriptionData): void {
+		this.set(data, {
+			subscriptionId: discordEntitlement.id,
+			status: 'active',
+			cancelAtPeriodEnd: false,
+			currentPeriodEnd: discordEntitlement.ends_at ? new Date(discordEntitlement.ends_at) : null,
+		});
+	}
+
+	private upsertFromGift(gift: Gift, data: BaseSubscriptionData): void {
+		this.set(data, {
+			subscriptionId: gift.code,
+			status: 'active',
+			cancelAtPeriodEnd: true, // Gifts never renew.
+			currentPeriodEnd: gift.endsAt,
+		});
+	}
+
+	private upsertFromPurchase(purchase: Purchase, data: BaseSubscriptionData): void {
+		this.set(data, {
+			subscriptionId: purchase.paymentIntentId,
+			status: 'active',
+			cancelAtPeriodEnd: false,
+			currentPeriodEnd: null, // Lifetime premium never runs out.
+		});
+	}
+
+	private set(data: BaseSubscriptionData, state: Pick<Entitlement, 'subscriptionId' | 'status' | 'cancelAtPeriodEnd' | 'currentPeriodEnd'>): void {
+		this.remove(state.subscriptionId);
+		if (!PremiumStatuses.includes(state.status)) return;
+
+		const entitlement: Entitlement = {
+			...state,
+			source: data.source,
+
+			type: data.type,
+			tierId: data.tier.tierId,
+
+			userId: data.userId,
+			guildId: data.guildId,
+
+			interval: data.interval,
+			seats: data.seats,
+			addons: data.addons.map((addon) => ({ addonId: addon.addonId, quantity: addon.quantity })),
+			featureSet: data.featureSet,
+			pause: data.pause,
+		};
+
+		this.bySubscription.set(entitlement.subscriptionId, entitlement);
+		this.index(entitlement);
+	}
+
+	// Lifetime purchases only back a guild (or user) without anything else, so a subscription bought on top of one stays visible.
+	// Paused subscriptions are never indexed, which suspends their premium until they are resumed.
+	private index(entitlement: Entitlement): void {
+		if (entitlement.pause) return;
+
+		const current = entitlement.type === 'guild' && entitlement.guildId ? this.byGuild.get(entitlement.guildId) : this.byUser.get(entitlement.userId);
+		if (current && current.subscriptionId !== entitlement.subscriptionId && entitlement.source === 'purchase' && current.source !== 'purchase') return;
+
+		if (entitlement.type === 'guild' && entitlement.guildId) this.byGuild.set(entitlement.guildId, entitlement);
+		else if (entitlement.type === 'user') this.byUser.set(entitlement.userId, entitlement);
+	}
+
+	public remove(subscriptionId: string): void {
+		const existing = this.bySubscription.get(subscriptionId);
+		if (!existing) return;
+
+		this.bySubscription.delete(subscriptionId);
+
+		if (existing.guildId && this.byGuild.get(existing.guildId)?.subscriptionId === subscriptionId) this.byGuild.delete(existing.guildId);
+		if (existing.type === 'user' && this.byUser.get(existing.userId)?.subscriptionId === subscriptionId) this.byUser.delete(existing.userId);
+
+		// Fall back to whatever else the guild (or user) still has, e.g. a lifetime purchase once the subscription ends.
+		const remaining = [...this.bySubscription.values()].filter((entitlement) => entitlement.type === existing.type && (existing.type === 'guild' ? entitlement.guildId === existing.guildId : entitlement.userId === existing.userId));
+		for (const entitlement of remaining) this.index(entitlement);
+	}
+}
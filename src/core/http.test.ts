@@ -0,0 +1,89 @@
+import { createEvent, createManager, createSubscription, WebhookSecret } from '../test/manager';
+import { createExpressWebhookMiddleware, createFastifyWebhookHandler, createWebhookListener } from './http';
+import { FastifyLikeReply, FastifyLikeRequest } from '../other/types';
+import { createServer, IncomingMessage, RequestListener } from 'http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PremiumManager } from './manager';
+import { Socket } from 'net';
+
+function signEvent(manager: PremiumManager) {
+	const payload = JSON.stringify(createEvent('evt_1', 'customer.subscription.updated', createSubscription(), {}));
+	const signature = manager.stripeManager.stripe.webhooks.generateTestHeaderString({ payload, secret: WebhookSecret });
+
+	return { payload, signature };
+}
+
+describe('webhook adapters', () => {
+	let close: (() => Promise<void>) | null = null;
+
+	afterEach(async () => {
+		await close?.();
+		close = null;
+	});
+
+	async function listen(listener: RequestListener): Promise<string> {
+		const server = createServer(listener);
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+		close = () => new Promise((resolve) => server.close(() => resolve()));
+
+		const address = server.address();
+		if (!address || typeof address === 'string') throw new Error('Server is not listening on a port.');
+
+		return `http://127.0.0.1:${address.port}`;
+	}
+
+	it('reads the raw body in the node:http listener and answers with the handler status', async () => {
+		const { manager } = createManager();
+		const { payload, signature } = signEvent(manager);
+
+		const listener = vi.fn();
+		manager.on('subscriptionUpdate', listener);
+
+		const url = await listen(createWebhookListener(manager));
+
+		expect((await fetch(url, { method: 'POST', body: payload, headers: { 'stripe-signature': signature } })).status).toBe(200);
+		expect(listener).toHaveBeenCalledTimes(1);
+
+		const invalid = await fetch(url, { method: 'POST', body: payload, headers: { 'stripe-signature': 't=1,v1=invalid' } });
+		expect(invalid.status).toBe(400);
+		expect(await invalid.json()).toMatchObject({ message: expect.stringContaining('signature') });
+
+		expect((await fetch(url, { method: 'POST', body: payload })).status).toBe(400);
+		expect((await fetch(url)).status).toBe(405);
+	});
+
+	it('uses the raw body of Express requests and rejects bodies that were already parsed', async () => {
+		const { manager } = createManager();
+		const { payload, signature } = signEvent(manager);
+
+		const middleware = createExpressWebhookMiddleware(manager);
+		let parse: (req: IncomingMessage) => object = () => ({});
+
+		const url = await listen((req, res) => middleware(Object.assign(req, parse(req)), res));
+		const send = () => fetch(url, { method: 'POST', body: payload, headers: { 'stripe-signature': signature } });
+
+		parse = () => ({ body: JSON.parse(payload) });
+		const parsed = await send();
+
+		expect(parsed.status).toBe(400);
+		expect(await parsed.json()).toMatchObject({ message: expect.stringContaining('body parser') });
+
+		parse = () => ({ body: JSON.parse(payload), rawBody: payload });
+		expect((await send()).status).toBe(200);
+	});
+
+	it('maps the handler result to the Fastify reply', async () => {
+		const { manager } = createManager();
+		const { payload, signature } = signEvent(manager);
+
+		const reply: FastifyLikeReply = { code: vi.fn(() => reply), send: vi.fn() };
+		const request = (body: unknown): FastifyLikeRequest => ({ headers: { 'stripe-signature': signature }, body, raw: new IncomingMessage(new Socket()) });
+
+		await createFastifyWebhookHandler(manager)(request(Buffer.from(payload)), reply);
+		expect(reply.code).toHaveBeenLastCalledWith(200);
+
+		await createFastifyWebhookHandler(manager)(request(JSON.parse(payload)), reply);
+		expect(reply.code).toHaveBeenLastCalledWith(400);
+	});
+});
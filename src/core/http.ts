@@ -0,0 +1,78 @@
+import { ErrorCode, ExpressLikeRequest, FastifyLikeInstance, FastifyLikeReply, FastifyLikeRequest, WebhookResponse } from '../other/types';
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import { WebhookError } from '../other/errors';
+import { stringifyError } from '../other/utils';
+import { PremiumManager } from './manager';
+
+export async function handleWebhookRequest(manager: PremiumManager, payload: Buffer | string | null, headers: IncomingHttpHeaders): Promise<WebhookResponse> {
+	const signature = headers['stripe-signature'];
+
+	if (typeof signature !== 'string' || !signature) return { status: 400, message: 'Missing stripe-signature header.' };
+	else if (payload === null) return { status: 400, message: 'Raw request body is unavailable, make sure no body parser runs before the webhook handler.' };
+
+	try {
+		return await manager.stripeManager.webhookHandler(payload, signature);
+	} catch (error) {
+		if (error instanceof WebhookError && error.code === ErrorCode.WebhookSignatureInvalid) return { status: 400, message: error.message };
+
+		manager.emit('debug', `Webhook handler failed: ${stringifyError(error)}`);
+		return { status: 500, message: 'Failed to process webhook.' };
+	}
+}
+
+export function createWebhookListener(manager: PremiumManager) {
+	return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+		if (req.method !== 'POST') return sendResponse(res, { status: 405, message: 'Method not allowed.' });
+
+		const payload = await readRawBody(req).catch(() => null);
+		sendResponse(res, await handleWebhookRequest(manager, payload, req.headers));
+	};
+}
+
+export function createExpressWebhookMiddleware(manager: PremiumManager) {
+	return async (req: ExpressLikeRequest, res: ServerResponse): Promise<void> => {
+		let payload: Buffer | string | null = null;
+
+		if (Buffer.isBuffer(req.body) || typeof req.body === 'string') payload = req.body;
+		else if (Buffer.isBuffer(req.rawBody) || typeof req.rawBody === 'string') payload = req.rawBody;
+		else if (req.body === undefined && req.readable) payload = await readRawBody(req).catch(() => null);
+
+		sendResponse(res, await handleWebhookRequest(manager, payload, req.headers));
+	};
+}
+
+export function createFastifyWebhookHandler(manager: PremiumManager) {
+	return async (request: FastifyLikeRequest, reply: FastifyLikeReply): Promise<unknown> => {
+		let payload: Buffer | string | null = null;
+
+		if (Buffer.isBuffer(request.body) || typeof request.body === 'string') payload = request.body;
+		else if (Buffer.isBuffer(request.rawBody) || typeof request.rawBody === 'string') payload = request.rawBody;
+
+		const response = await handleWebhookRequest(manager, payload, request.headers);
+		return reply.code(response.status).send({ message: response.message });
+	};
+}
+
+// Register with fastify.register() so the buffer parser stays scoped to the webhook route.
+export function createFastifyWebhookPlugin(manager: PremiumManager, path = '/stripe/webhook') {
+	return async (instance: FastifyLikeInstance): Promise<void> => {
+		instance.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => done(null, body));
+		instance.post(path, createFastifyWebhookHandler(manager));
+	};
+}
+
+function readRawBody(req: IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+
+		req.on('data', (chunk: Buffer | string) => chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+		req.on('error', reject);
+	});
+}
+
+function sendResponse(res: ServerResponse, response: WebhookResponse): void {
+	res.statusCode = response.status;
+	res.setHeader('Content-Type', 'application/json');
+	res.end(JSON.stringify({ message: response.message }));
+}
@@ -0,0 +1,38 @@
+import { createEvent, createManager, createSubscription, sendWebhook } from '../test/manager';
+import { describe, expect, it, vi } from 'vitest';
+
+describe('feature sets', () => {
+	function createFeatureManager() {
+		const { manager } = createManager({
+			premiumTiers: [{ name: 'Pro', type: 'guild', tierId: 'pro', priceCents: 500, isActive: true, features: { music: true, logging: false }, limits: { customCommands: 50 } }],
+			addons: [
+				{ name: 'Commands', type: 'guild', addonId: 'commands', priceCents: 100, isActive: true, limits: { customCommands: 10 } },
+				{ name: 'Logging', type: 'guild', addonId: 'logging', priceCents: 100, isActive: true, features: { logging: true } },
+			],
+		});
+
+		return manager;
+	}
+
+	it('adds addon limits per unit and unlocks addon features on top of the tier', () => {
+		const manager = createFeatureManager();
+
+		expect(manager.resolveFeatureSet('pro')).toEqual({ features: { music: true, logging: false }, limits: { customCommands: 50 } });
+		expect(manager.resolveFeatureSet('pro', [{ addonId: 'commands', quantity: 3 }, { addonId: 'logging', quantity: 1 }])).toEqual({ features: { music: true, logging: true }, limits: { customCommands: 80 } });
+	});
+
+	it('ignores addons that are not configured or have no units', () => {
+		const manager = createFeatureManager();
+		expect(manager.resolveFeatureSet('pro', [{ addonId: 'unknown', quantity: 1 }, { addonId: 'commands', quantity: 0 }])).toEqual({ features: { music: true, logging: false }, limits: { customCommands: 50 } });
+	});
+
+	it('resolves the feature set of the subscription in event payloads', async () => {
+		const manager = createFeatureManager();
+
+		const listener = vi.fn();
+		manager.on('subscriptionUpdate', listener);
+
+		await sendWebhook(manager, createEvent('evt_1', 'customer.subscription.updated', createSubscription(), {}));
+		expect(listener).toHaveBeenCalledWith(expect.objectContaining({ featureSet: { features: { music: true, logging: false }, limits: { customCommands: 50 } } }));
+	});
+});
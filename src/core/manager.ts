@@ -1,14 +1,27 @@
-import { ConfigType, ManagerEvents } from '../other/types';
+import { Addon, ConfigType, DiscordEntitlement, DiscordEntitlementAction, FeatureSet, ManagerEvents, PremiumTier, StorageAdapter, WithQuantity } from '../other/types';
+import { MemoryStorage } from '../other/storage';
+import { ListenerError } from '../other/errors';
+import { EntitlementManager } from './entitlements';
+import { SlotManager } from './slots';
+import { DiscordManager } from './discord';
 import StripeManager from './stripe';
 import EventEmitter from 'events';
 
 export class PremiumManager extends EventEmitter {
 	public stripeManager: StripeManager;
+	public discordManager: DiscordManager;
+	public entitlements: EntitlementManager;
+	public slots: SlotManager;
+	public storage: StorageAdapter;
 
 	constructor (readonly config: ConfigType) {
 		super();
 
+		this.storage = config.options?.storage || new MemoryStorage();
 		this.stripeManager = new StripeManager(this);
+		this.discordManager = new DiscordManager(this);
+		this.entitlements = new EntitlementManager(this);
+		this.slots = new SlotManager(this); // After entitlements, so its listeners see the updated entitlements.
 	}
 
 	public async syncAll() {
@@ -17,23 +30,71 @@ export class PremiumManager extends EventEmitter {
 		]);
 	}
 
+	// Stops the timers of the manager and sends any usage that is still batched.
+	public async destroy(): Promise<void> {
+		this.entitlements.stop();
+		await this.stripeManager.usage.stop();
+	}
+
+	public async handleDiscordEntitlement(action: DiscordEntitlementAction, entitlement: DiscordEntitlement): Promise<boolean> {
+		return this.discordManager.handleEntitlement(action, entitlement);
+	}
+
+	public resolveFeatureSet(tier: PremiumTier | string, addons: WithQuantity<Pick<Addon, 'addonId'>>[] = []): FeatureSet {
+		const tierData = typeof tier === 'string' ? this.config.premiumTiers.find((t) => t.tierId === tier) : tier;
+		const featureSet: FeatureSet = {
+			features: { ...(tierData?.features ?? {}) },
+			limits: { ...(tierData?.limits ?? {}) },
+		};
+
+		for (const { addonId, quantity } of addons) {
+			const addonData = this.config.addons.find((addon) => addon.addonId === addonId);
+			if (!addonData || quantity < 1) continue;
+
+			for (const [feature, enabled] of Object.entries(addonData.features ?? {})) {
+				if (enabled) featureSet.features[feature] = true;
+			}
+
+			for (const [limit, perUnit] of Object.entries(addonData.limits ?? {})) {
+				featureSet.limits[limit] = (featureSet.limits[limit] ?? 0) + perUnit * quantity;
+			}
+		}
+
+		return featureSet;
+	}
+
+	public async dispatch<K extends keyof ManagerEvents>(event: K, ...args: ManagerEvents[K]): Promise<void> {
+		if (this.config.options?.awaitListeners) await this.emitAsync(event, ...args);
+		else this.emit(event, ...args);
+	}
+
+	public async emitAsync<K extends keyof ManagerEvents>(event: K, ...args: ManagerEvents[K]): Promise<boolean> {
+		const listeners = this.rawListeners(event); // Raw listeners so once() wrappers still remove themselves.
+		const results = await Promise.allSettled(listeners.map(async (listener) => listener.apply(this, args)));
+
+		const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+		if (failures.length) throw new ListenerError(`${failures.length} of ${listeners.length} listeners failed for event ${event}: ${failures.map((failure) => failure.reason instanceof Error ? failure.reason.message : String(failure.reason)).join(', ')}`, failures.map((failure) => failure.reason));
+
+		return listeners.length > 0;
+	}
+
 	emit<K extends keyof ManagerEvents>(event: K, ...args: ManagerEvents[K]) {
 		return super.emit(event, ...args);
 	}
 
-	on<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void) {
+	on<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void | Promise<void>) {
 		return super.on(event, listener);
 	}
 
-	once<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void) {
+	once<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void | Promise<void>) {
 		return super.once(event, listener);
 	}
 
-	off<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void) {
+	off<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void | Promise<void>) {
 		return super.off(event, listener);
 	}
 
-	removeListener<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void) {
+	removeListener<K extends keyof ManagerEvents>(event: K, listener: (...args: ManagerEvents[K]) => void | Promise<void>) {
 		return super.removeListener(event, listener);
 	}
 }
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createManager } from '../test/manager';
+import { Entitlement } from '../other/types';
+
+function createEntitlement(userId: string): Entitlement<'user'> {
+	return {
+		subscriptionId: `sub_${userId}`,
+		source: 'stripe',
+		type: 'user',
+		tierId: 'supporter',
+		userId,
+		guildId: null,
+		interval: 'monthly',
+		seats: 1,
+		addons: [],
+		featureSet: { features: {}, limits: {} },
+		status: 'active',
+		cancelAtPeriodEnd: false,
+		currentPeriodEnd: null,
+		pause: null,
+	};
+}
+
+function createSlotManager() {
+	const { manager } = createManager({ premiumTiers: [{ name: 'Supporter', type: 'user', tierId: 'supporter', priceCents: 500, isActive: true, guildSlots: 1 }] });
+	vi.spyOn(manager.entitlements, 'getUserEntitlement').mockImplementation(createEntitlement);
+
+	return manager;
+}
+
+describe('guild slots', () => {
+	it('never assigns more slots than the tier allows when assigned concurrently', async () => {
+		const manager = createSlotManager();
+
+		const listener = vi.fn();
+		manager.on('guildSlotAssigned', listener);
+
+		const results = await Promise.allSettled([
+			manager.slots.assignSlot('user_1', 'guild_1'),
+			manager.slots.assignSlot('user_1', 'guild_2'),
+		]);
+
+		expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+		expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { code: 'SLOTS_UNAVAILABLE' } });
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(await manager.storage.get('guildSlots:user_1')).toHaveLength(1);
+	});
+
+	it('keeps every user in the slot index when users assign at the same time', async () => {
+		const manager = createSlotManager();
+
+		await Promise.all([
+			manager.slots.assignSlot('user_1', 'guild_1'),
+			manager.slots.assignSlot('user_2', 'guild_2'),
+		]);
+
+		expect(await manager.storage.get<string[]>('guildSlotUsers')).toEqual(['user_1', 'user_2']);
+	});
+
+	it('keeps the cooldown of a slot another process assigned', async () => {
+		const manager = createSlotManager();
+		await manager.slots.assignSlot('user_1', 'guild_1');
+
+		const other = createSlotManager();
+		other.storage = manager.storage;
+
+		await expect(other.slots.unassignSlot('user_1', 'guild_1')).rejects.toMatchObject({ code: 'SLOT_ON_COOLDOWN' });
+	});
+
+	it('removes the slots another process assigned once premium ended', async () => {
+		const manager = createSlotManager();
+		await manager.slots.assignSlot('user_1', 'guild_1');
+
+		const other = createSlotManager();
+		other.storage = manager.storage;
+
+		const listener = vi.fn();
+		other.on('guildSlotRemoved', listener);
+
+		await other.slots.reconcile('user_1');
+
+		expect(listener).toHaveBeenCalledWith(expect.objectContaining({ reason: 'premiumEnded' }));
+		expect(await manager.storage.get('guildSlots:user_1')).toBeUndefined();
+	});
+
+	it('restores stored slots on load', async () => {
+		const manager = createSlotManager();
+		await manager.slots.assignSlot('user_1', 'guild_1');
+
+		const restored = createSlotManager();
+		restored.storage = manager.storage;
+
+		vi.spyOn(restored.entitlements, 'getAllEntitlements').mockReturnValue([createEntitlement('user_1')]);
+
+		expect(await restored.slots.load()).toBe(1);
+		expect(restored.slots.getGuildSlots('guild_1')).toMatchObject([{ userId: 'user_1', guildId: 'guild_1' }]);
+	});
+});
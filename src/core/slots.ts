@@ -0,0 +1,166 @@
+import { Entitlement, ErrorCode, GuildSlot, GuildSlotRemovedReason } from '../other/types';
+import { stringifyError } from '../other/utils';
+import { withLock } from '../other/storage';
+import { SlotError } from '../other/errors';
+import { PremiumManager } from './manager';
+
+const DefaultSlotCooldown = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+type StoredGuildSlot = Omit<GuildSlot, 'assignedAt' | 'cooldownEndsAt'> & {
+	assignedAt: number;
+	cooldownEndsAt: number;
+};
+
+export class SlotManager {
+	private byUser: Map<string, GuildSlot[]> = new Map();
+	private byGuild: Map<string, GuildSlot[]> = new Map();
+
+	constructor (private readonly manager: PremiumManager) {
+		// Slots follow the subscriber's premium, an ended (or smaller) plan takes the slots it no longer covers with it.
+		this.manager.on('subscriptionTierChange', (data) => this.runSafely(data.type === 'user' ? this.reconcile(data.userId) : Promise.resolve()));
+		this.manager.on('subscriptionCancel', (data) => this.runSafely(data.type === 'user' ? this.reconcile(data.userId) : Promise.resolve()));
+		this.manager.on('subscriptionDelete', (data) => this.runSafely(data.type === 'user' ? this.reconcile(data.userId) : Promise.resolve()));
+	}
+
+	// Slots as this process last saw them, for premium checks. Assigning, unassigning and reconciling always decide from storage under the user's lock.
+	public getSlots(userId: string): GuildSlot[] {
+		return this.byUser.get(userId) ?? [];
+	}
+
+	public getGuildSlots(guildId: string): GuildSlot[] {
+		return this.byGuild.get(guildId) ?? [];
+	}
+
+	public getSlotLimit(entitlement: Pick<Entitlement, 'type' | 'tierId'>): number {
+		if (entitlement.type !== 'user') return 0;
+		return this.manager.config.premiumTiers.find((tier) => tier.tierId === entitlement.tierId)?.guildSlots ?? 0;
+	}
+
+	public async assignSlot(userId: string, guildId: string): Promise<GuildSlot> {
+		const { slot, entitlement, assigned } = await withLock(this.manager.storage, `guildSlots:${userId}`, () => this.internalAssignSlot(userId, guildId));
+		if (assigned) await this.manager.dispatch('guildSlotAssigned', { slot, entitlement });
+
+		return slot;
+	}
+
+	public async unassignSlot(userId: string, guildId: string): Promise<boolean> {
+		const slot = await withLock(this.manager.storage, `guildSlots:${userId}`, async () => {
+			const slots = await this.readSlots(userId);
+
+			const existing = slots.find((s) => s.guildId === guildId);
+			if (!existing) throw new SlotError(ErrorCode.SlotNotAssigned, `User ${userId} has no slot assigned to guild ${guildId}.`, { userId, guildId });
+			else if (existing.cooldownEndsAt.getTime() > Date.now()) throw new SlotError(ErrorCode.SlotOnCooldown, `Slot for guild ${guildId} cannot be moved before ${existing.cooldownEndsAt.toISOString()}.`, { userId, guildId });
+
+			await this.saveSlots(userId, slots.filter((s) => s !== existing));
+			return existing;
+		});
+
+		await this.manager.dispatch('guildSlotRemoved', { slot, reason: 'unassigned' });
+		return true;
+	}
+
+	// Runs under the user's lock and starts from the stored slots, so another process assigning at the same time cannot exceed the limit.
+	private async internalAssignSlot(userId: string, guildId: string): Promise<{ slot: GuildSlot; entitlement: Entitlement<'user'>; assigned: boolean; }> {
+		const entitlement = this.manager.entitlements.getUserEntitlement(userId);
+		if (!entitlement) throw new SlotError(ErrorCode.SlotsUnavailable, `User ${userId} does not have premium.`, { userId, guildId });
+
+		const limit = this.getSlotLimit(entitlement);
+		if (!limit) throw new SlotError(ErrorCode.SlotsUnavailable, `Tier ${entitlement.tierId} does not come with guild slots.`, { userId, guildId, tierId: entitlement.tierId });
+
+		const slots = await this.readSlots(userId);
+
+		const existing = slots.find((slot) => slot.guildId === guildId);
+		if (existing) return { slot: existing, entitlement, assigned: false };
+		else if (slots.length >= limit) throw new SlotError(ErrorCode.SlotsUnavailable, `All ${limit} guild slots of user ${userId} are in use.`, { userId, guildId, tierId: entitlement.tierId });
+
+		const assignedAt = new Date();
+		const slot: GuildSlot = {
+			userId,
+			guildId,
+			assignedAt,
+			cooldownEndsAt: new Date(assignedAt.getTime() + (this.manager.config.options?.guildSlotCooldown ?? DefaultSlotCooldown)),
+		};
+
+		await this.saveSlots(userId, [...slots, slot]);
+		return { slot, entitlement, assigned: true };
+	}
+
+	// Loads every persisted slot, then drops the ones whose subscriber no longer covers them.
+	public async load(): Promise<number> {
+		const userIds = await this.manager.storage.get<string[]>('guildSlotUsers') ?? [];
+
+		this.byUser.clear();
+		this.byGuild.clear();
+
+		for (const userId of userIds) await this.readSlots(userId);
+
+		for (const userId of userIds) await this.reconcile(userId);
+		return [...this.byUser.values()].reduce((total, slots) => total + slots.length, 0);
+	}
+
+	// Paused premium keeps its slots, they just grant nothing until the subscription is resumed.
+	public async reconcile(userId: string): Promise<void> {
+		if (!await this.manager.storage.has(`guildSlots:${userId}`)) return; // Not the cache, another process may have assigned the slots.
+
+		const result = await withLock(this.manager.storage, `guildSlots:${userId}`, async () => {
+			const slots = await this.readSlots(userId);
+
+			const entitlement = this.manager.entitlements.getAllEntitlements().find((e) => e.type === 'user' && e.userId === userId);
+			const limit = entitlement ? this.getSlotLimit(entitlement) : 0;
+			if (slots.length <= limit) return null;
+
+			const reason: GuildSlotRemovedReason = limit ? 'slotsReduced' : 'premiumEnded';
+			const kept = [...slots].sort((a, b) => a.assignedAt.getTime() - b.assignedAt.getTime()).slice(0, limit);
+			const removed = slots.filter((slot) => !kept.includes(slot));
+
+			this.manager.emit('debug', `Removing ${removed.length} guild slots of user ${userId} (${reason}).`);
+			await this.saveSlots(userId, kept);
+
+			return { removed, reason };
+		});
+
+		if (!result) return;
+		for (const slot of result.removed) await this.manager.dispatch('guildSlotRemoved', { slot, reason: result.reason });
+	}
+
+	private async readSlots(userId: string): Promise<GuildSlot[]> {
+		const stored = await this.manager.storage.get<StoredGuildSlot[]>(`guildSlots:${userId}`) ?? [];
+		const slots = stored.map((slot) => ({ ...slot, assignedAt: new Date(slot.assignedAt), cooldownEndsAt: new Date(slot.cooldownEndsAt) }));
+
+		this.setSlots(userId, slots);
+		return slots;
+	}
+
+	// Callers hold the user's lock, the shared index of users with slots has a lock of its own.
+	private async saveSlots(userId: string, slots: GuildSlot[]): Promise<void> {
+		const stored: StoredGuildSlot[] = slots.map((slot) => ({ ...slot, assignedAt: slot.assignedAt.getTime(), cooldownEndsAt: slot.cooldownEndsAt.getTime() }));
+
+		if (stored.length) await this.manager.storage.set(`guildSlots:${userId}`, stored);
+		else await this.manager.storage.delete(`guildSlots:${userId}`);
+
+		await withLock(this.manager.storage, 'guildSlotUsers', async () => {
+			const userIds = (await this.manager.storage.get<string[]>('guildSlotUsers') ?? []).filter((id) => id !== userId);
+			await this.manager.storage.set('guildSlotUsers', stored.length ? [...userIds, userId] : userIds);
+		});
+
+		this.setSlots(userId, slots);
+	}
+
+	private setSlots(userId: string, slots: GuildSlot[]): void {
+		for (const slot of this.getSlots(userId)) {
+			const remaining = this.getGuildSlots(slot.guildId).filter((s) => s.userId !== userId);
+
+			if (remaining.length) this.byGuild.set(slot.guildId, remaining);
+			else this.byGuild.delete(slot.guildId);
+		}
+
+		if (slots.length) this.byUser.set(userId, slots);
+		else this.byUser.delete(userId);
+
+		for (const slot of slots) this.byGuild.set(slot.guildId, [...this.getGuildSlots(slot.guildId), slot]);
+	}
+
+	private runSafely(promise: Promise<void>): void {
+		promise.catch((err) => this.manager.emit('debug', `Failed to update guild slots: ${stringifyError(err)}`));
+	}
+}
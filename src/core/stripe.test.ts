@@ -0,0 +1,607 @@
+import { createEvent, createManager, createSubscription, sendWebhook } from '../test/manager';
+import { ChargeType, ConfigType, Gift, PremiumTier } from '../other/types';
+import { describe, expect, it, vi } from 'vitest';
+import { FakeStripe, Fixture } from '../test/stripe';
+import { PremiumManager } from './manager';
+import Stripe from 'stripe';
+
+const basicItem: Fixture<Stripe.SubscriptionItem> = {
+	id: 'si_1',
+	object: 'subscription_item',
+	quantity: 1,
+	price: { id: 'price_basic', object: 'price', product: 'prod_basic', metadata: { _internal_id: 'basic', _internal_which: 'tier' }, recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed', meter: null } },
+	current_period_start: 1_700_000_000,
+	current_period_end: 2_000_000_000,
+};
+
+describe('webhook events', () => {
+	it('processes each event once', async () => {
+		const { manager } = createManager();
+
+		const listener = vi.fn();
+		manager.on('subscriptionUpdate', listener);
+
+		const event = createEvent('evt_1', 'customer.subscription.updated', createSubscription(), {});
+		await Promise.all([sendWebhook(manager, event), sendWebhook(manager, event)]);
+
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it('rejects payloads that were not signed with the webhook secret', async () => {
+		const { manager } = createManager();
+		const payload = JSON.stringify(createEvent('evt_1', 'customer.subscription.updated', createSubscription(), {}));
+
+		await expect(manager.stripeManager.webhookHandler(payload, 't=1,v1=invalid')).rejects.toMatchObject({ code: 'WEBHOOK_SIGNATURE_INVALID' });
+	});
+
+	it('only re-runs the dispatches that failed when Stripe retries an event', async () => {
+		const { manager } = createManager();
+
+		const pause = vi.fn();
+		const update = vi.fn();
+		const tierChange = vi.fn().mockRejectedValueOnce(new Error('Listener failed.'));
+
+		manager.on('subscriptionPause', pause);
+		manager.on('subscriptionTierChange', tierChange);
+		manager.on('subscriptionUpdate', update);
+
+		const subscription = createSubscription({ pause_collection: { behavior: 'void', resumes_at: null } });
+		const event = createEvent('evt_1', 'customer.subscription.updated', subscription, { pause_collection: null, items: { object: 'list', data: [basicItem] } });
+
+		expect((await sendWebhook(manager, event)).status).toBe(500);
+		expect((await sendWebhook(manager, event)).status).toBe(200);
+
+		expect(pause).toHaveBeenCalledTimes(1);
+		expect(tierChange).toHaveBeenCalledTimes(2);
+		expect(tierChange).toHaveBeenLastCalledWith(expect.objectContaining({ newTier: expect.objectContaining({ tierId: 'pro' }), oldTier: expect.objectContaining({ tierId: 'basic' }) }));
+		expect(update).toHaveBeenCalledTimes(1);
+	});
+
+	it('waits for the first payment before a trial converts or expires', async () => {
+		const { manager } = createManager();
+
+		const converted = vi.fn();
+		const expired = vi.fn();
+
+		manager.on('trialConverted', converted);
+		manager.on('trialExpired', expired);
+
+		await sendWebhook(manager, createEvent('evt_1', 'customer.subscription.updated', createSubscription({ status: 'past_due', trial_end: 1_700_000_000 }), { status: 'trialing' }));
+		expect(converted).not.toHaveBeenCalled();
+		expect(expired).not.toHaveBeenCalled();
+
+		await sendWebhook(manager, createEvent('evt_2', 'customer.subscription.updated', createSubscription({ status: 'active', trial_end: 1_700_000_000 }), { status: 'past_due' }));
+		expect(converted).toHaveBeenCalledTimes(1);
+
+		await sendWebhook(manager, createEvent('evt_3', 'customer.subscription.updated', createSubscription({ id: 'sub_2', status: 'unpaid', trial_end: 1_700_000_000 }), { status: 'trialing' }));
+		await sendWebhook(manager, createEvent('evt_4', 'customer.subscription.deleted', createSubscription({ id: 'sub_2', status: 'canceled', trial_end: 1_700_000_000, ended_at: 1_800_000_000 })));
+
+		expect(converted).toHaveBeenCalledTimes(1);
+		expect(expired).toHaveBeenCalledTimes(1);
+	});
+
+	it('skips handled events on replay once the processing claim has expired', async () => {
+		const { manager, api } = createManager();
+
+		const listener = vi.fn();
+		manager.on('subscriptionUpdate', listener);
+
+		const handled = createEvent('evt_1', 'customer.subscription.updated', createSubscription(), {});
+		const invalid = createEvent('evt_2', 'customer.subscription.updated', createSubscription());
+
+		await sendWebhook(manager, handled);
+		await manager.storage.delete('processedEvent:evt_1');
+
+		api.add('events', invalid).add('events', handled); // Newest first, like Stripe lists them.
+		const result = await manager.stripeManager.replayEvents({ since: new Date(1_690_000_000_000) });
+
+		expect(result).toEqual({ emitted: 0, skipped: 1, ignored: 1, failed: 0 });
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('errors', () => {
+	const customer = { userId: 'user_1', email: 'user@example.com' };
+
+	it('throws typed errors with stable codes and the IDs involved', async () => {
+		const { manager, api } = createManager({ premiumTiers: [{ name: 'Pro', type: 'guild', tierId: 'pro', priceCents: 500, isActive: true }, { name: 'Legacy', type: 'guild', tierId: 'legacy', priceCents: 300, isActive: false }] });
+		api.add('subscriptions', createSubscription());
+
+		const { subscriptions } = manager.stripeManager;
+
+		await expect(subscriptions.createCheckoutSession({ customer, tierId: 'missing', guildId: 'guild_2' })).rejects.toMatchObject({ name: 'TierError', code: 'TIER_NOT_FOUND', context: { tierId: 'missing' } });
+		await expect(subscriptions.createCheckoutSession({ customer, tierId: 'legacy', guildId: 'guild_2' })).rejects.toMatchObject({ name: 'TierError', code: 'TIER_INACTIVE' });
+		await expect(subscriptions.createCheckoutSession({ customer, tierId: 'pro', guildId: 'guild_1' })).rejects.toMatchObject({ name: 'SubscriptionError', code: 'ALREADY_SUBSCRIBED', context: { guildId: 'guild_1', subscriptionId: 'sub_1' } });
+		await expect(subscriptions.changeSubscriptionTier('sub_missing', 'pro')).rejects.toMatchObject({ name: 'SubscriptionError', code: 'SUBSCRIPTION_NOT_FOUND', context: { subscriptionId: 'sub_missing' } });
+	});
+});
+
+describe('usage reports', () => {
+	function createUsageManager(usageFlushInterval?: number) {
+		const { manager, api } = createManager({ addons: [{ name: 'Messages', type: 'guild', addonId: 'messages', priceCents: 1, isActive: true, metered: true }], options: { stripe: { usageFlushInterval } } });
+		api.add('subscriptions', createSubscription());
+
+		const create = vi.spyOn(manager.stripeManager.stripe.billing.meterEvents, 'create');
+		return { manager, create };
+	}
+
+	it('batches reports of the same customer and minute', async () => {
+		const { manager, create } = createUsageManager();
+		const timestamp = new Date(1_700_000_000_000);
+
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2, timestamp });
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 3, timestamp });
+
+		expect(create).not.toHaveBeenCalled();
+		expect(await manager.stripeManager.usage.flushUsage()).toBe(1);
+		expect(create).toHaveBeenCalledWith(expect.objectContaining({ event_name: 'stripecord_messages', payload: { stripe_customer_id: 'cus_1', value: '5' } }));
+	});
+
+	it('sends reports with an idempotency key right away and only once', async () => {
+		const { manager, create } = createUsageManager();
+
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2, idempotencyKey: 'report_1' });
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2, idempotencyKey: 'report_1' });
+
+		expect(create).toHaveBeenCalledTimes(1);
+		expect(create).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'report_1' }));
+	});
+
+	it('releases the idempotency key when sending fails', async () => {
+		const { manager, create } = createUsageManager();
+		create.mockRejectedValueOnce(new Error('Network error.'));
+
+		await expect(manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2, idempotencyKey: 'report_1' })).rejects.toThrow('Network error.');
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2, idempotencyKey: 'report_1' });
+
+		expect(create).toHaveBeenCalledTimes(2);
+	});
+
+	it('retries failed batches without waiting for another report', async () => {
+		const { manager, create } = createUsageManager(5);
+		create.mockRejectedValueOnce(new Error('Network error.'));
+
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2 });
+
+		await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(2));
+		expect(create).toHaveBeenLastCalledWith(expect.objectContaining({ payload: { stripe_customer_id: 'cus_1', value: '2' } }));
+	});
+
+	it('sends batched usage when the manager is destroyed', async () => {
+		const { manager, create } = createUsageManager();
+
+		await manager.stripeManager.usage.reportUsage({ subscriptionId: 'sub_1', addonId: 'messages', quantity: 2 });
+		await manager.destroy();
+
+		expect(create).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('gifts', () => {
+	function createGiftEvent(eventId: string, sessionId: string, months = 2, type: 'checkout.session.completed' | 'checkout.session.async_payment_succeeded' = 'checkout.session.completed') {
+		return createEvent(eventId, type, {
+			id: sessionId,
+			object: 'checkout.session',
+			mode: 'payment',
+			payment_status: 'paid',
+			payment_intent: null,
+			metadata: { tierId: 'pro', userId: 'user_1', months: String(months), isGift: 'true' },
+		});
+	}
+
+	async function purchaseGift(manager: PremiumManager, sessionId: string, months = 2): Promise<Gift> {
+		const purchased = new Promise<Gift>((resolve) => manager.once('giftPurchased', ({ gift }) => resolve(gift)));
+		await sendWebhook(manager, createGiftEvent(`evt_${sessionId}`, sessionId, months));
+
+		return purchased;
+	}
+
+	it('creates one gift when deliveries for the same checkout overlap', async () => {
+		const { manager } = createManager();
+
+		const purchased = vi.fn();
+		manager.on('giftPurchased', purchased);
+
+		await Promise.all([
+			sendWebhook(manager, createGiftEvent('evt_1', 'cs_1')),
+			sendWebhook(manager, createGiftEvent('evt_2', 'cs_1', 2, 'checkout.session.async_payment_succeeded')),
+		]);
+
+		const codes = purchased.mock.calls.map(([{ gift }]) => gift.code);
+		expect(codes).toHaveLength(2);
+		expect(new Set(codes).size).toBe(1);
+	});
+
+	it('puts the gift back when a listener fails, so the code can be redeemed again', async () => {
+		const { manager } = createManager();
+		const gift = await purchaseGift(manager, 'cs_1');
+
+		const listener = vi.fn().mockRejectedValueOnce(new Error('Listener failed.'));
+		manager.on('giftRedeemed', listener);
+
+		await expect(manager.stripeManager.subscriptions.redeemGift(gift.code, { guildId: 'guild_1' })).rejects.toMatchObject({ code: 'LISTENER_FAILED' });
+
+		expect(await manager.stripeManager.subscriptions.getGift(gift.code)).toMatchObject({ redeemedAt: null, redeemedFor: null });
+		expect(await manager.stripeManager.subscriptions.getActiveGifts()).toEqual([]);
+		expect(manager.entitlements.isGuildPremium('guild_1')).toBe(false);
+
+		expect(await manager.stripeManager.subscriptions.redeemGift(gift.code, { guildId: 'guild_1' })).toMatchObject({ redeemedFor: 'guild_1' });
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(manager.entitlements.isGuildPremium('guild_1')).toBe(true);
+	});
+
+	it('redeems a gift only once when redeemed concurrently', async () => {
+		const { manager } = createManager();
+		const gift = await purchaseGift(manager, 'cs_1');
+
+		const listener = vi.fn();
+		manager.on('giftRedeemed', listener);
+
+		const results = await Promise.allSettled([
+			manager.stripeManager.subscriptions.redeemGift(gift.code, { guildId: 'guild_1' }),
+			manager.stripeManager.subscriptions.redeemGift(gift.code, { guildId: 'guild_2' }),
+		]);
+
+		expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+		expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { code: 'GIFT_ALREADY_REDEEMED' } });
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect((await manager.stripeManager.subscriptions.getActiveGifts()).map((active) => active.code)).toEqual([gift.code]);
+	});
+
+	it('keeps every code when gifts are redeemed at the same time', async () => {
+		const { manager } = createManager();
+		const first = await purchaseGift(manager, 'cs_1');
+		const second = await purchaseGift(manager, 'cs_2', 1);
+
+		await Promise.all([
+			manager.stripeManager.subscriptions.redeemGift(first.code, { guildId: 'guild_1' }),
+			manager.stripeManager.subscriptions.redeemGift(second.code, { guildId: 'guild_2' }),
+		]);
+
+		expect((await manager.stripeManager.subscriptions.getActiveGifts()).map((active) => active.code).sort()).toEqual([first.code, second.code].sort());
+	});
+});
+
+describe('seats', () => {
+	const team = { name: 'Team', type: 'guild', tierId: 'team', priceCents: 100, isActive: true, seats: { min: 5, max: 50 } } satisfies PremiumTier;
+	const teamItem: Fixture<Stripe.SubscriptionItem> = { id: 'si_1', object: 'subscription_item', quantity: 5, price: { id: 'price_team', object: 'price', product: 'prod_team', metadata: { _internal_id: 'team', _internal_which: 'tier' }, recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed', meter: null } }, current_period_start: 1_700_000_000, current_period_end: 2_000_000_000 };
+
+	function createTeamSubscription(quantity: number) {
+		return createSubscription({ metadata: { tierId: 'team', userId: 'user_1', guildId: 'guild_1', interval: 'monthly' }, items: { object: 'list', data: [{ ...teamItem, quantity }] } });
+	}
+
+	it('changes the quantity of the tier item within the seat limits', async () => {
+		const { manager, api } = createManager({ premiumTiers: [team] });
+		api.add('subscriptions', createTeamSubscription(5));
+
+		const update = vi.spyOn(manager.stripeManager.stripe.subscriptions, 'update');
+
+		await manager.stripeManager.subscriptions.changeSeats('sub_1', 10, { chargeType: ChargeType.SendInvoice });
+		expect(update).toHaveBeenCalledWith('sub_1', { items: [{ id: 'si_1', price: 'price_team', quantity: 10 }], proration_behavior: 'none' });
+
+		await expect(manager.stripeManager.subscriptions.changeSeats('sub_1', 60)).rejects.toMatchObject({ code: 'INVALID_QUANTITY' });
+		await expect(manager.stripeManager.subscriptions.changeSeats('sub_1', 4)).rejects.toMatchObject({ code: 'INVALID_QUANTITY' });
+	});
+
+	it('dispatches the seat change when the quantity of the tier item changes', async () => {
+		const { manager } = createManager({ premiumTiers: [team] });
+
+		const seatsChange = vi.fn();
+		manager.on('subscriptionSeatsChange', seatsChange);
+
+		await sendWebhook(manager, createEvent('evt_1', 'customer.subscription.updated', createTeamSubscription(10), { items: { object: 'list', data: [teamItem] } }));
+		expect(seatsChange).toHaveBeenCalledWith(expect.objectContaining({ seats: 10, previousSeats: 5 }));
+	});
+});
+
+describe('scheduled changes', () => {
+	it('rejects a second end-of-period change instead of replacing the pending one', async () => {
+		const { manager, api } = createManager();
+		api.add('subscriptions', createSubscription({ schedule: 'sub_sched_1' }));
+		api.add('subscription_schedules', { id: 'sub_sched_1', subscription: 'sub_1', phases: [{ start_date: 1_700_000_000, items: [] }, { start_date: 2_000_000_000, items: [] }] });
+
+		const listener = vi.fn();
+		manager.on('subscriptionChangeScheduled', listener);
+
+		const scheduleUpdate = vi.spyOn(manager.stripeManager.stripe.subscriptionSchedules, 'update');
+
+		await expect(manager.stripeManager.subscriptions.changeSubscriptionTier('sub_1', 'basic', { chargeType: ChargeType.EndOfPeriod })).rejects.toMatchObject({ code: 'CHANGE_ALREADY_SCHEDULED' });
+		expect(scheduleUpdate).not.toHaveBeenCalled();
+		expect(listener).not.toHaveBeenCalled();
+	});
+});
+
+describe('price migrations', () => {
+	function createMigrationManager() {
+		const { manager, api } = createManager();
+
+		api.add('prices', { id: 'price_pro', object: 'price', product: 'prod_pro', active: false, unit_amount: 500, currency: 'usd', created: 1_600_000_000, recurring: { interval: 'month', interval_count: 1 }, metadata: { _internal_interval: 'monthly', _internal_version: '1' } });
+		api.add('prices', { id: 'price_pro_v2', object: 'price', product: 'prod_pro', active: true, unit_amount: 600, currency: 'usd', created: 1_700_000_000, recurring: { interval: 'month', interval_count: 1 }, metadata: { _internal_interval: 'monthly', _internal_version: '2' } });
+		api.add('subscriptions', createSubscription());
+
+		return { manager, api };
+	}
+
+	it('schedules the new price for the next period without prorating', async () => {
+		const { manager, api } = createMigrationManager();
+		const { stripe } = manager.stripeManager;
+
+		api.on('POST', '/v1/subscription_schedules', () => ({ id: 'sub_sched_1', object: 'subscription_schedule', current_phase: null, phases: [] }));
+		api.on('POST', '/v1/subscription_schedules/sub_sched_1', () => ({ id: 'sub_sched_1', object: 'subscription_schedule', phases: [{}, { start_date: 2_000_000_000, items: [], metadata: {} }] }));
+
+		const update = vi.spyOn(stripe.subscriptions, 'update');
+		const scheduleUpdate = vi.spyOn(stripe.subscriptionSchedules, 'update');
+
+		const progress = await manager.stripeManager.subscriptions.migrateSubscribers({ tierId: 'pro', from: 1, prorate: true });
+
+		expect(progress).toMatchObject({ migrated: 1, failed: 0 });
+		expect(update).not.toHaveBeenCalled();
+
+		const [, params] = scheduleUpdate.mock.calls[0] ?? [];
+		expect(params?.phases).toMatchObject([
+			{ items: [{ price: 'price_pro' }], end_date: 2_000_000_000, proration_behavior: 'none' },
+			{ items: [{ price: 'price_pro_v2' }], proration_behavior: 'none' },
+		]);
+	});
+
+	it('moves subscribers right away when effective now', async () => {
+		const { manager } = createMigrationManager();
+		const update = vi.spyOn(manager.stripeManager.stripe.subscriptions, 'update');
+
+		await manager.stripeManager.subscriptions.migrateSubscribers({ tierId: 'pro', from: 1, effective: 'now', prorate: true });
+		expect(update).toHaveBeenCalledWith('sub_1', { items: [{ id: 'si_1', price: 'price_pro_v2' }], proration_behavior: 'create_prorations', billing_cycle_anchor: 'now' });
+	});
+
+	it('releases the pending change before moving subscribers right away', async () => {
+		const { manager, api } = createMigrationManager();
+		api.add('subscriptions', createSubscription({ schedule: 'sub_sched_1' }));
+		api.add('subscription_schedules', { id: 'sub_sched_1', subscription: 'sub_1', phases: [] });
+
+		const release = vi.spyOn(manager.stripeManager.stripe.subscriptionSchedules, 'release');
+		const update = vi.spyOn(manager.stripeManager.stripe.subscriptions, 'update');
+
+		expect(await manager.stripeManager.subscriptions.migrateSubscribers({ tierId: 'pro', from: 1, effective: 'now' })).toMatchObject({ migrated: 1, failed: 0 });
+		expect(release).toHaveBeenCalledWith('sub_sched_1');
+		expect(release.mock.invocationCallOrder[0]).toBeLessThan(update.mock.invocationCallOrder[0] ?? 0);
+	});
+});
+
+describe('sync planning', () => {
+	const stripeCoupon: Fixture<Stripe.Coupon> & { id: string; } = { id: 'SUMMER', object: 'coupon', name: 'Summer', percent_off: 10, amount_off: null, duration: 'once', duration_in_months: null, max_redemptions: null, redeem_by: null, metadata: { _internal_id: 'SUMMER', _internal_which: 'coupon' } };
+	const stripePromotionCode: Fixture<Stripe.PromotionCode> & { id: string; } = { id: 'promo_1', object: 'promotion_code', code: 'SUMMER10', active: true, max_redemptions: null, expires_at: null, restrictions: { first_time_transaction: false }, promotion: { type: 'coupon', coupon: 'SUMMER' } };
+
+	function createPlanManager(config: Partial<ConfigType>) {
+		return createManager(config, false);
+	}
+
+	function addRemovedTier(api: FakeStripe) {
+		api.add('products', { id: 'prod_old', active: true, name: 'Old', metadata: { _internal_id: 'old', _internal_which: 'tier' } });
+		api.add('prices', { id: 'price_old', product: 'prod_old', active: true, recurring: { interval: 'month', interval_count: 1 }, metadata: {} });
+	}
+
+	it('does not point the default price of an inactive tier at an inactive price', async () => {
+		const { manager } = createPlanManager({ premiumTiers: [{ name: 'Legacy', type: 'guild', tierId: 'legacy', priceCents: 300, isActive: false }] });
+		const plan = await manager.stripeManager.catalog.planSync('tier');
+
+		expect(plan.map((operation) => operation.type)).toEqual(['createProduct', 'createPrice', 'createPrice']);
+	});
+
+	it('archives tiers that were removed from the config by default', async () => {
+		const archiving = createPlanManager({ premiumTiers: [] });
+		addRemovedTier(archiving.api);
+
+		expect(await archiving.manager.stripeManager.catalog.planSync('tier')).toMatchObject([
+			{ type: 'archiveProduct', productId: 'prod_old' },
+			{ type: 'archivePrice', priceId: 'price_old' },
+		]);
+
+		const keeping = createPlanManager({ premiumTiers: [], options: { stripe: { deleteUnknownTiers: false } } });
+		addRemovedTier(keeping.api);
+
+		expect(await keeping.manager.stripeManager.catalog.planSync('tier')).toEqual([]);
+	});
+
+	it('creates a new coupon version instead of deleting a coupon whose terms changed', async () => {
+		const coupons = [{ couponId: 'SUMMER', name: 'Summer', percentOff: 20, duration: 'once' as const, promotionCodes: [{ code: 'SUMMER10' }] }];
+		const { manager, api } = createPlanManager({ coupons });
+		api.add('coupons', stripeCoupon).add('promotion_codes', stripePromotionCode);
+
+		const plan = await manager.stripeManager.catalog.planSync('coupon');
+
+		expect(plan.some((operation) => operation.type === 'deleteCoupon')).toBe(false);
+		expect(plan).toMatchObject([
+			{ type: 'archivePromotionCode', promotionCodeId: 'promo_1' },
+			{ type: 'createCoupon', couponId: 'SUMMER_v2', version: 2, replaces: 'SUMMER' },
+			{ type: 'createPromotionCode', couponId: 'SUMMER_v2', promotionCode: { code: 'SUMMER10' } },
+		]);
+	});
+
+	it('only deletes unknown coupons when deleteUnknownCoupons is set', async () => {
+		const kept = createPlanManager({ options: { stripe: { deleteUnknownTiers: true } } });
+		kept.api.add('coupons', stripeCoupon).add('promotion_codes', stripePromotionCode);
+		expect(await kept.manager.stripeManager.catalog.planSync('coupon')).toEqual([]);
+
+		const deleted = createPlanManager({ options: { stripe: { deleteUnknownCoupons: true } } });
+		deleted.api.add('coupons', stripeCoupon).add('promotion_codes', stripePromotionCode);
+		expect(await deleted.manager.stripeManager.catalog.planSync('coupon')).toMatchObject([
+			{ type: 'archivePromotionCode', promotionCodeId: 'promo_1' },
+			{ type: 'deleteCoupon', couponId: 'SUMMER' },
+		]);
+	});
+});
+
+describe('change previews', () => {
+	function createPreviewManager() {
+		const { manager, api } = createManager();
+		api.add('subscriptions', createSubscription());
+
+		// Like Stripe, proration lines are only previewed for changes that prorate.
+		api.on('POST', '/v1/invoices/create_preview', ({ params }) => {
+			const details = params.subscription_details;
+			const prorates = typeof details === 'object' && !Array.isArray(details) && details.proration_behavior === 'create_prorations';
+
+			return {
+				object: 'invoice',
+				currency: 'usd',
+				lines: {
+					object: 'list',
+					data: [
+						...(prorates ? [{ description: 'Remaining time', amount: 150, quantity: 1, parent: { subscription_item_details: { proration: true } } }] : []),
+						{ description: 'Basic', amount: 300, quantity: 1, parent: { subscription_item_details: { proration: false } } },
+					],
+				},
+			};
+		});
+
+		const createPreview = vi.spyOn(manager.stripeManager.stripe.invoices, 'createPreview');
+		return { manager, createPreview };
+	}
+
+	it('charges the proration right away for immediate changes', async () => {
+		const { manager } = createPreviewManager();
+		expect(await manager.stripeManager.subscriptions.previewTierChange('sub_1', 'basic')).toMatchObject({ prorationCents: 150, amountDueNowCents: 150, nextRenewalCents: 300 });
+	});
+
+	it('leaves nothing due now for end-of-period and invoiced changes', async () => {
+		const { manager, createPreview } = createPreviewManager();
+
+		expect(await manager.stripeManager.subscriptions.previewTierChange('sub_1', 'basic', { chargeType: ChargeType.EndOfPeriod })).toMatchObject({ prorationCents: 0, amountDueNowCents: 0, nextRenewalCents: 300 });
+		expect(await manager.stripeManager.subscriptions.previewTierChange('sub_1', 'basic', { chargeType: ChargeType.SendInvoice })).toMatchObject({ amountDueNowCents: 0 });
+		expect(createPreview).toHaveBeenLastCalledWith(expect.objectContaining({ subscription_details: expect.objectContaining({ items: [{ id: 'si_1', price: 'price_basic', quantity: 1 }], proration_behavior: 'none' }) }));
+	});
+});
+
+describe('billing intervals', () => {
+	const customer = { userId: 'user_1', email: 'user@example.com' };
+	const annual = { name: 'Annual', type: 'guild', tierId: 'annual', priceCents: 500, isActive: true, intervals: { yearly: { priceCents: 5000 } } } satisfies PremiumTier;
+
+	it('subscribes to tiers that are only billed yearly', async () => {
+		const { manager } = createManager({ premiumTiers: [annual] });
+		const create = vi.spyOn(manager.stripeManager.stripe.checkout.sessions, 'create');
+
+		expect(await manager.stripeManager.tiers.getStripeTiers()).toMatchObject([{ tierId: 'annual', priceCents: 5000, priceIds: { yearly: 'price_annual_yearly' } }]);
+
+		await manager.stripeManager.subscriptions.createCheckoutSession({ customer, tierId: 'annual', guildId: 'guild_1', interval: 'yearly' });
+		expect(create).toHaveBeenCalledWith(expect.objectContaining({ line_items: [{ price: 'price_annual_yearly', quantity: 1 }] }));
+
+		await expect(manager.stripeManager.subscriptions.createCheckoutSession({ customer, tierId: 'annual', guildId: 'guild_1' })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+	});
+
+	it('syncs a price for every configured interval', async () => {
+		const { manager } = createManager({ premiumTiers: [{ name: 'Flex', type: 'guild', tierId: 'flex', priceCents: 500, isActive: true, intervals: { monthly: {}, quarterly: { multiplier: 2.5 }, yearly: { priceCents: 4000 } } }] }, false);
+		const prices = (await manager.stripeManager.catalog.planSync('tier')).filter((operation) => operation.type === 'createPrice');
+
+		expect(prices).toMatchObject([
+			{ interval: 'monthly', unitAmount: 500 },
+			{ interval: 'quarterly', unitAmount: 1250 },
+			{ interval: 'yearly', unitAmount: 4000 },
+		]);
+	});
+
+	it('changes to a yearly-only tier in the interval the subscription is billed in', async () => {
+		const { manager, api } = createManager({ premiumTiers: [{ name: 'Pro', type: 'guild', tierId: 'pro', priceCents: 500, isActive: true }, annual] });
+		api.add('subscriptions', createSubscription({ metadata: { tierId: 'pro', userId: 'user_1', guildId: 'guild_1', interval: 'yearly' } }));
+
+		const createPreview = vi.spyOn(manager.stripeManager.stripe.invoices, 'createPreview');
+		api.on('POST', '/v1/invoices/create_preview', () => ({ object: 'invoice', currency: 'usd', lines: { object: 'list', data: [] } }));
+
+		await manager.stripeManager.subscriptions.previewTierChange('sub_1', 'annual');
+		expect(createPreview).toHaveBeenCalledWith(expect.objectContaining({ subscription_details: expect.objectContaining({ items: [{ id: 'si_1', price: 'price_annual_yearly', quantity: 1 }] }) }));
+	});
+});
+
+describe('currencies', () => {
+	const customer = { userId: 'user_1', email: 'user@example.com' };
+	const multiCurrency = { name: 'Global', type: 'guild', tierId: 'global', priceCents: 500, isActive: true, currencyPrices: { eur: 450, gbp: 400 } } satisfies PremiumTier;
+
+	it('syncs one price with an option for every currency', async () => {
+		const { manager } = createManager({ premiumTiers: [multiCurrency] }, false);
+		const plan = await manager.stripeManager.catalog.planSync('tier');
+
+		expect(plan).toContainEqual(expect.objectContaining({ type: 'createPrice', interval: 'monthly', currency: 'usd', unitAmount: 500, currencyOptions: { eur: 450, gbp: 400 } }));
+	});
+
+	it('charges in the preferred currency, or the currency of the customer', async () => {
+		const { manager, api } = createManager({ premiumTiers: [multiCurrency] });
+		const create = vi.spyOn(manager.stripeManager.stripe.checkout.sessions, 'create');
+
+		await manager.stripeManager.subscriptions.createCheckoutSession({ customer, tierId: 'global', guildId: 'guild_1', currency: 'EUR' });
+		expect(create).toHaveBeenLastCalledWith(expect.objectContaining({ currency: 'eur' }));
+
+		await expect(manager.stripeManager.subscriptions.createCheckoutSession({ customer, tierId: 'global', guildId: 'guild_1', currency: 'jpy' })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+
+		api.add('customers', { id: 'cus_gbp', email: 'gbp@example.com', currency: 'gbp', metadata: { userId: 'user_2' } });
+
+		await manager.stripeManager.subscriptions.createCheckoutSession({ customer: { userId: 'user_2', email: 'gbp@example.com' }, tierId: 'global', guildId: 'guild_2' });
+		expect(create).toHaveBeenLastCalledWith(expect.objectContaining({ customer: 'cus_gbp', currency: 'gbp' }));
+	});
+});
+
+describe('purchases', () => {
+	it('records a purchase once when checkout and payment intent events arrive together', async () => {
+		const { manager, api } = createManager({ products: [{ name: 'Lifetime', type: 'guild', productId: 'lifetime', kind: 'lifetime', priceCents: 5000, isActive: true, tierId: 'pro' }] });
+
+		const paymentIntent = { id: 'pi_1', object: 'payment_intent', amount: 5000, amount_received: 5000, currency: 'usd', created: 1_700_000_000, metadata: { isPurchase: 'true', productId: 'lifetime', userId: 'user_1', guildId: 'guild_1' } } satisfies Fixture<Stripe.PaymentIntent>;
+		api.add('payment_intents', paymentIntent);
+
+		const completed = vi.fn();
+		const created = vi.fn();
+
+		manager.on('purchaseCompleted', completed);
+		manager.on('subscriptionCreate', created);
+
+		await Promise.all([
+			sendWebhook(manager, createEvent('evt_1', 'checkout.session.completed', { id: 'cs_1', object: 'checkout.session', mode: 'payment', payment_status: 'paid', payment_intent: 'pi_1', metadata: { isPurchase: 'true' } })),
+			sendWebhook(manager, createEvent('evt_2', 'payment_intent.succeeded', paymentIntent)),
+		]);
+
+		expect(completed).toHaveBeenCalledTimes(1);
+		expect(created).toHaveBeenCalledTimes(1);
+		expect(await manager.stripeManager.purchases.getPurchases({ guildId: 'guild_1' })).toHaveLength(1);
+	});
+
+	it('records the purchase again when its listeners fail, so the retry dispatches it', async () => {
+		const { manager } = createManager({ products: [{ name: 'Credits', type: 'user', productId: 'credits', kind: 'consumable', priceCents: 500, isActive: true }] });
+
+		const completed = vi.fn().mockRejectedValueOnce(new Error('Listener failed.'));
+		manager.on('purchaseCompleted', completed);
+
+		const event = createEvent('evt_1', 'payment_intent.succeeded', { id: 'pi_1', object: 'payment_intent', amount: 500, currency: 'usd', created: 1_700_000_000, metadata: { isPurchase: 'true', productId: 'credits', userId: 'user_1' } });
+
+		expect((await sendWebhook(manager, event)).status).toBe(500);
+		expect(await manager.stripeManager.purchases.getPurchase('pi_1')).toBeNull();
+
+		expect((await sendWebhook(manager, event)).status).toBe(200);
+		expect(completed).toHaveBeenCalledTimes(2);
+		expect(await manager.stripeManager.purchases.getPurchase('pi_1')).toMatchObject({ productId: 'credits', userId: 'user_1' });
+	});
+});
+
+describe('reconcile', () => {
+	it('treats paused subscriptions as granting no premium', async () => {
+		const { manager, api } = createManager();
+		api.add('subscriptions', createSubscription({ pause_collection: { behavior: 'void', resumes_at: null } }));
+
+		expect(await manager.stripeManager.reconcile({ guilds: {} })).toEqual([]);
+		expect(await manager.stripeManager.reconcile({ guilds: { guild_1: 'pro' } })).toMatchObject([{ type: 'missingInStripe', guildId: 'guild_1' }]);
+	});
+
+	it('reports subscriptions whose metadata does not match what they are billed for', async () => {
+		const { manager, api } = createManager();
+		api.add('subscriptions', createSubscription({ metadata: { tierId: 'basic', userId: 'user_1', guildId: 'guild_1', interval: 'yearly' } }));
+		api.add('subscriptions', createSubscription({ id: 'sub_2', metadata: { tierId: 'pro', userId: 'user_2' } }));
+
+		const listener = vi.fn();
+		manager.on('driftDetected', listener);
+
+		const drifts = await manager.stripeManager.reconcile({ guilds: { guild_1: 'pro' } });
+
+		expect(drifts).toMatchObject([
+			{ type: 'tierMismatch', subscriptionId: 'sub_1', suggestedFix: 'Set metadata.tierId to pro to match what the customer pays for.' },
+			{ type: 'intervalMismatch', subscriptionId: 'sub_1' },
+			{ type: 'missingMetadata', subscriptionId: 'sub_2' },
+			{ type: 'localTierMismatch', guildId: 'guild_1' },
+		]);
+		expect(listener).toHaveBeenCalledTimes(drifts.length);
+	});
+});
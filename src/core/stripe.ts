@@ -1,42 +1,166 @@
-import { Addon, AddonUpdateType, ChargeOptions, CollectionMethod, CustomerCreateData, CustomerQueryData, CustomerUpdateData, InvoiceNeedsPayment, InvoicePaymentFailed, PremiumTier, StripeAddon, StripeTier, SubscriptionCreateInputData, WebhookResponse, WhatHappened, WithQuantity } from '../other/types';
-import { getYearlyMultiplier, stringifyError } from '../other/utils';
-import { TimedSet, TimedMap } from '../other/timed';
+import { Addon, AddonUpdateType, BaseSubscriptionData, BillingInterval, CatalogItemType, ChangePreview, ChangePreviewLine, ChargeOptions, CollectionMethod, Coupon, CustomerCreateData, CustomerQueryData, CustomerUpdateData, DiscountInput, DriftData, DriftType, ErrorCode, ErrorContext, Gift, GiftCreateInputData, GiftSourcedData, InvoiceNeedsPayment, InvoicePaymentFailed, ManagerEvents, MigrateSubscribersOptions, MigrationProgress, OneTimeProduct, PauseOptions, PendingChange, PremiumTarget, PremiumTier, PriceVersion, PromotionCode, Purchase, PurchaseCreateInputData, PurchaseSourcedData, ReconcileSnapshot, ReplayOptions, ReplayResult, StripeAddon, StripeOneTimeProduct, StripeTier, SubscriptionCreateInputData, SyncItemRef, SyncOperation, TierType, UsageReportData, UsageTotal, WebhookResponse, WhatHappened, WithQuantity } from '../other/types';
+import { AddonError, ConfigError, CouponError, CustomerError, GiftError, ListenerError, PurchaseError, StripeCordError, SubscriptionError, TierError, WebhookError } from '../other/errors';
+import { BillingIntervals, getBillingIntervals, getCurrencyPrices, getIntervalPrices, stringifyError } from '../other/utils';
+import { setIfAbsent, withLock } from '../other/storage';
 import { PremiumManager } from './manager';
+import { randomInt, randomUUID } from 'crypto';
 import Stripe from 'stripe';
 
+const WebhookEvents: Stripe.WebhookEndpointCreateParams.EnabledEvent[] = [
+	'invoice.paid',
+	'customer.subscription.updated',
+	'customer.subscription.deleted',
+	'customer.subscription.trial_will_end',
+	'checkout.session.completed',
+	'checkout.session.async_payment_succeeded',
+	'payment_intent.succeeded',
+	'charge.refunded',
+	'invoice.finalized',
+	'invoice.payment_failed',
+	'invoice.payment_action_required',
+	'radar.early_fraud_warning.created',
+	'charge.dispute.created',
+];
+
+const IntervalRecurrence: Record<BillingInterval, Stripe.PriceCreateParams.Recurring> = {
+	weekly: { interval: 'week', interval_count: 1 },
+	monthly: { interval: 'month', interval_count: 1 },
+	quarterly: { interval: 'month', interval_count: 3 },
+	semiannual: { interval: 'month', interval_count: 6 },
+	yearly: { interval: 'year', interval_count: 1 },
+};
+
+// Prices created before intervals were tracked in metadata are recognized by their recurrence.
+function getPriceInterval(price: Stripe.Price): BillingInterval | null {
+	const fromMetadata = price.metadata._internal_interval;
+	if (fromMetadata && fromMetadata in IntervalRecurrence) return fromMetadata as BillingInterval;
+
+	const match = BillingIntervals.find((interval) => IntervalRecurrence[interval].interval === price.recurring?.interval && IntervalRecurrence[interval].interval_count === price.recurring?.interval_count);
+	return match ?? null;
+}
+
+// Prices created before versions were tracked in metadata are numbered by creation order within their interval.
+function getPriceVersions(prices: Stripe.Price[]): Map<string, number> {
+	const versions: Map<string, number> = new Map();
+	const counters: Map<BillingInterval | null, number> = new Map();
+
+	for (const price of [...prices].sort((a, b) => a.created - b.created)) {
+		const version = Number(price.metadata._internal_version);
+		if (version) {
+			versions.set(price.id, version);
+			continue;
+		}
+
+		const interval = getPriceInterval(price);
+		const next = (counters.get(interval) ?? 0) + 1;
+
+		counters.set(interval, next);
+		versions.set(price.id, next);
+	}
+
+	return versions;
+}
+
+function getSubscriptionSeats(subscription: Stripe.Subscription): number {
+	const tierItem = subscription.items.data.find((item) => item.price.metadata._internal_id === subscription.metadata.tierId);
+	return tierItem?.quantity ?? 1;
+}
+
+function getMeterEventName(addon: Pick<Addon, 'addonId' | 'meterEventName'>): string {
+	return addon.meterEventName ?? `stripecord_${addon.addonId}`;
+}
+
+// Subscriptions created before the interval metadata existed only carry isAnnual.
+function getSubscriptionInterval(subscription: Stripe.Subscription): BillingInterval {
+	const { interval, isAnnual } = subscription.metadata;
+	if (interval && interval in IntervalRecurrence) return interval as BillingInterval;
+
+	return isAnnual === 'true' ? 'yearly' : 'monthly';
+}
+
+type PlannedChange = {
+	subscription: Stripe.Subscription;
+	customerId: string;
+	params: Stripe.SubscriptionUpdateParams;
+};
+
+type StoredGift = Omit<Gift, 'purchasedAt' | 'redeemBy' | 'redeemedAt' | 'endsAt'> & {
+	purchasedAt: number;
+	redeemBy: number;
+	redeemedAt: number | null;
+	endsAt: number | null;
+};
+
+type UsageBatch = {
+	customerId: string;
+	eventName: string;
+	quantity: number;
+	timestamp: number; // Seconds, the latest report in the batch.
+	identifier: string; // Kept across retries so Stripe drops the batch if an earlier attempt did go through.
+};
+
+type StoredPurchase = Omit<Purchase, 'purchasedAt' | 'refundedAt'> & {
+	purchasedAt: number;
+	refundedAt: number | null;
+};
+
+const MaxUsageRetryDelay = 1000 * 60 * 10; // 10 minutes
+
+const GiftCodeAlphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I, codes are typed in by hand.
+
+function generateGiftCode(): string {
+	return Array.from({ length: 3 }, () => Array.from({ length: 4 }, () => GiftCodeAlphabet[randomInt(GiftCodeAlphabet.length)]).join('')).join('-');
+}
+
 export default class StripeManager {
 	readonly stripe: Stripe;
 
 	public tiers: StripeTiers;
 	public addons: StripeAddons;
+	public catalog: StripeCatalog;
 
 	public customers: StripeCustomers;
+	public purchases: StripePurchases;
 	public subscriptions: StripeSubscriptions;
+	public usage: StripeUsage;
 
 	private stripeWebhookSecret: string | null = null;
 
-	private processedEvents = new TimedSet<string>(1000 * 60 * 60); // 1 hour
-	private subscriptionsCache = new TimedMap<string, Stripe.Subscription>(1000 * 60 * 5); // 5 minutes
+	private processedEventsTtl: number;
+	private handledEventsTtl = 1000 * 60 * 60 * 24 * 30; // 30 days, Stripe keeps events for 30 days so neither retries nor replays reach further back.
+	private subscriptionsCacheTtl = 1000 * 60 * 5; // 5 minutes
 
 	constructor (private readonly manager: PremiumManager) {
-		if (!manager.config.stripeApiKey) throw new Error('Missing Stripe API key.');
-		else if (!manager.config.stripeWebhookUrl) throw new Error('Missing Stripe webhook url.');
+		if (!manager.config.stripeApiKey) throw new ConfigError(ErrorCode.InvalidConfig, 'Missing Stripe API key.');
+		else if (!manager.config.stripeWebhookUrl) throw new ConfigError(ErrorCode.InvalidConfig, 'Missing Stripe webhook url.');
 
-		this.stripe = new Stripe(manager.config.stripeApiKey);
+		this.stripe = new Stripe(manager.config.stripeApiKey, manager.config.options?.stripe?.client);
 
-		this.tiers = new StripeTiers(manager, this.stripe);
-		this.addons = new StripeAddons(manager, this.stripe);
+		this.tiers = new StripeTiers(manager);
+		this.addons = new StripeAddons(manager);
+		this.catalog = new StripeCatalog(manager, this.stripe);
 
 		this.customers = new StripeCustomers(manager, this.stripe);
+		this.purchases = new StripePurchases(manager, this.stripe, this);
 		this.subscriptions = new StripeSubscriptions(manager, this.stripe, this);
+		this.usage = new StripeUsage(manager, this.stripe, this);
 
 		this.stripeWebhookSecret = this.manager.config.stripeWebhookSecret || null;
+		this.processedEventsTtl = this.manager.config.options?.stripe?.processedEventsTtl || 1000 * 60 * 60; // 1 hour
 	}
 
 	public async syncAll() {
 		await this.validateWebhook();
-		await this.tiers.syncOrCreateTiers();
-		await this.addons.syncOrCreateAddons();
+		await this.applySync(await this.planSync());
+	}
+
+	// Read-only, nothing is changed in Stripe until the returned plan is passed to applySync().
+	public async planSync(): Promise<SyncOperation[]> {
+		return this.catalog.planSync();
+	}
+
+	public async applySync(plan: SyncOperation[]): Promise<void> {
+		await this.catalog.applySync(plan);
 	}
 
 	private async validateWebhook() {
@@ -56,16 +180,7 @@ export default class StripeManager {
 
 		const newWebhook = await this.stripe.webhookEndpoints.create({
 			url: this.manager.config.stripeWebhookUrl,
-			enabled_events: [
-				'invoice.paid',
-				'customer.subscription.updated',
-				'customer.subscription.deleted',
-				'invoice.finalized',
-				'invoice.payment_failed',
-				'invoice.payment_action_required',
-				'radar.early_fraud_warning.created',
-				'charge.dispute.created',
-			],
+			enabled_events: WebhookEvents,
 			metadata: {
 				_internal: 'StripeCord',
 			},
@@ -73,13 +188,13 @@ export default class StripeManager {
 
 		this.manager.emit('debug', `Created webhook with ID ${newWebhook.id}.`);
 
-		if (!newWebhook.secret) throw new Error('Failed to create webhook secret.');
+		if (!newWebhook.secret) throw new WebhookError(ErrorCode.WebhookNotConfigured, 'Failed to create webhook secret.');
 		this.stripeWebhookSecret = newWebhook.secret;
 		return newWebhook;
 	}
 
 	public async webhookHandler(payload: string | Buffer, signature: string): Promise<WebhookResponse> {
-		if (!this.stripeWebhookSecret) throw new Error('Failed to validate webhook, have you called validateWebhook()?');
+		if (!this.stripeWebhookSecret) throw new WebhookError(ErrorCode.WebhookNotConfigured, 'Failed to validate webhook, have you called syncAll()?');
 
 		let event: Stripe.Event;
 
@@ -87,12 +202,167 @@ export default class StripeManager {
 			event = await this.stripe.webhooks.constructEventAsync(payload, signature, this.stripeWebhookSecret);
 		} catch (error) {
 			this.manager.emit('unprocessedWebhook', payload);
-			throw new Error(`Invalid Stripe webhook: ${stringifyError(error)}`);
+			throw new WebhookError(ErrorCode.WebhookSignatureInvalid, `Invalid Stripe webhook: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		return this.internalHandleEvent(event, payload);
+	}
+
+	public async replayEvents(options: ReplayOptions): Promise<ReplayResult> {
+		const result: ReplayResult = { emitted: 0, skipped: 0, ignored: 0, failed: 0 };
+
+		const events = await this.internalGetAllEvents({
+			types: WebhookEvents,
+			created: {
+				gte: Math.floor(options.since.getTime() / 1000),
+				lte: options.until ? Math.floor(options.until.getTime() / 1000) : undefined,
+			},
+		});
+
+		// Stripe lists newest first, replay in the order the events happened.
+		for (const event of events.reverse()) {
+			if (await this.manager.storage.has(`handledEvent:${event.id}`) || await this.manager.storage.has(`processedEvent:${event.id}`)) {
+				result.skipped++;
+				continue;
+			}
+
+			const response = await this.internalHandleEvent(event, event).catch((err) => {
+				this.manager.emit('debug', `Failed to replay event ${event.id}: ${stringifyError(err)}`);
+				return null;
+			});
+
+			if (response && response.status >= 200 && response.status < 300) result.emitted++;
+			else if (response && response.status >= 400 && response.status < 500) result.ignored++;
+			else result.failed++;
+		}
+
+		this.manager.emit('debug', `Replayed ${events.length} events since ${options.since.toISOString()}: ${result.emitted} emitted, ${result.skipped} skipped, ${result.ignored} ignored, ${result.failed} failed.`);
+		return result;
+	}
+
+	public async reconcile(snapshot?: ReconcileSnapshot): Promise<DriftData[]> {
+		const drifts: DriftData[] = [];
+		const report = (type: DriftType, subscription: Stripe.Subscription | null, message: string, suggestedFix: string, ids?: { userId?: string; guildId?: string; }) => {
+			const drift: DriftData = {
+				type,
+				message,
+				suggestedFix,
+
+				subscriptionId: subscription?.id ?? null,
+				userId: ids?.userId ?? subscription?.metadata.userId ?? null,
+				guildId: ids?.guildId ?? subscription?.metadata.guildId ?? null,
+
+				raw: { subscription },
+			};
+
+			drifts.push(drift);
+			this.manager.emit('driftDetected', drift);
+		};
+
+		const subscriptions = await this.subscriptions.getAllSubscriptions();
+		const premiumSubscriptions = subscriptions.filter((sub) => ['active', 'trialing', 'past_due'].includes(sub.status));
+
+		const seenGuilds = new Map<string, Stripe.Subscription>();
+		const seenUsers = new Map<string, Stripe.Subscription>();
+
+		for (const subscription of premiumSubscriptions) {
+			const { tierId, userId, guildId, isUserSub } = subscription.metadata;
+
+			if (!tierId || !userId || (!guildId && !isUserSub)) {
+				const missing = [!tierId && 'tierId', !userId && 'userId', !guildId && !isUserSub && 'guildId or isUserSub'].filter(Boolean).join(', ');
+				report(DriftType.MissingMetadata, subscription, `Subscription ${subscription.id} is missing metadata: ${missing}.`, `Set ${missing} in the subscription metadata, or cancel it if it was not created through StripeCord.`);
+				continue;
+			}
+
+			const tierItem = subscription.items.data.find((item) => item.price.metadata._internal_which === 'tier');
+			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === tierId);
+
+			if (!tierData) report(DriftType.UnknownTier, subscription, `Subscription ${subscription.id} references tier ${tierId}, which is not configured.`, 'Add the tier back to premiumTiers or move the subscription to a configured tier.');
+			else if (tierData.type !== (isUserSub === 'true' ? 'user' : 'guild')) report(DriftType.TypeMismatch, subscription, `Subscription ${subscription.id} is a ${isUserSub === 'true' ? 'user' : 'guild'} subscription but tier ${tierId} is a ${tierData.type} tier.`, `Move the subscription to a ${isUserSub === 'true' ? 'user' : 'guild'} tier.`);
+
+			if (!tierItem) report(DriftType.TierMismatch, subscription, `Subscription ${subscription.id} has no tier item.`, `Add the price of tier ${tierId} to the subscription items.`);
+			else {
+				const itemTierId = tierItem.price.metadata._internal_id;
+				if (itemTierId !== tierId) report(DriftType.TierMismatch, subscription, `Subscription ${subscription.id} metadata says tier ${tierId} but is billed for tier ${itemTierId}.`, `Set metadata.tierId to ${itemTierId} to match what the customer pays for.`);
+
+				const interval = getSubscriptionInterval(subscription);
+				const itemInterval = getPriceInterval(tierItem.price);
+				if (itemInterval && itemInterval !== interval) report(DriftType.IntervalMismatch, subscription, `Subscription ${subscription.id} metadata says ${interval} but is billed ${itemInterval}.`, `Set metadata.interval to ${itemInterval}.`);
+			}
+
+			for (const item of subscription.items.data.filter((item) => item.price.metadata._internal_which === 'addon')) {
+				const addonData = this.manager.config.addons.find((addon) => addon.addonId === item.price.metadata._internal_id);
+				if (!addonData) report(DriftType.UnknownAddon, subscription, `Subscription ${subscription.id} contains addon ${item.price.metadata._internal_id}, which is not configured.`, 'Add the addon back to addons or remove the item from the subscription.');
+				else if (tierData && addonData.type !== tierData.type) report(DriftType.TypeMismatch, subscription, `Subscription ${subscription.id} contains ${addonData.type} addon ${addonData.addonId} on a ${tierData.type} tier.`, 'Remove the addon from the subscription.');
+			}
+
+			const seen = isUserSub === 'true' ? seenUsers : seenGuilds;
+			const key = isUserSub === 'true' ? userId : guildId!;
+
+			const duplicate = seen.get(key);
+			if (duplicate) report(DriftType.DuplicateSubscription, subscription, `${isUserSub === 'true' ? 'User' : 'Guild'} ${key} has multiple active subscriptions: ${duplicate.id} and ${subscription.id}.`, 'Cancel one of the subscriptions and refund it if needed.');
+			else seen.set(key, subscription);
+		}
+
+		if (snapshot) {
+			// Paused subscriptions grant no premium (see EntitlementManager), so the app should not grant their tier either.
+			const compare = (local: Record<string, string>, seen: Map<string, Stripe.Subscription>, type: TierType) => {
+				const remote = new Map([...seen].filter(([, subscription]) => !subscription.pause_collection));
+
+				for (const [id, localTierId] of Object.entries(local)) {
+					const ids = type === 'user' ? { userId: id } : { guildId: id };
+					const subscription = remote.get(id);
+
+					if (!subscription) report(DriftType.MissingInStripe, null, `${type === 'user' ? 'User' : 'Guild'} ${id} has tier ${localTierId} locally but no active Stripe subscription.`, 'Revoke premium locally.', ids);
+					else if (subscription.metadata.tierId !== localTierId) report(DriftType.LocalTierMismatch, subscription, `${type === 'user' ? 'User' : 'Guild'} ${id} has tier ${localTierId} locally but tier ${subscription.metadata.tierId} in Stripe.`, `Update the local tier to ${subscription.metadata.tierId}.`, ids);
+				}
+
+				for (const [id, subscription] of remote) {
+					if (!(id in local)) report(DriftType.MissingLocally, subscription, `${type === 'user' ? 'User' : 'Guild'} ${id} has an active subscription to tier ${subscription.metadata.tierId} but no premium locally.`, `Grant tier ${subscription.metadata.tierId} locally.`, type === 'user' ? { userId: id } : { guildId: id });
+				}
+			};
+
+			if (snapshot.users) compare(snapshot.users, seenUsers, 'user');
+			if (snapshot.guilds) compare(snapshot.guilds, seenGuilds, 'guild');
+		}
+
+		this.manager.emit('debug', `Reconciled ${premiumSubscriptions.length} subscriptions, found ${drifts.length} drifts.`);
+		return drifts;
+	}
+
+	private async internalHandleEvent(event: Stripe.Event, payload: unknown): Promise<WebhookResponse> {
+		// processedEvent claims the event while it runs, handledEvent outlives it so late retries and replays are still recognized.
+		if (await this.manager.storage.has(`handledEvent:${event.id}`)) return { status: 200, message: 'Webhook event already processed.' };
+		else if (!await setIfAbsent(this.manager.storage, `processedEvent:${event.id}`, true, this.processedEventsTtl)) return { status: 200, message: 'Webhook event already processed.' };
+
+		try {
+			const response = await this.internalProcessEvent(event, payload);
+			await this.manager.storage.set(`handledEvent:${event.id}`, true, this.handledEventsTtl);
+
+			return response;
+		} catch (error) {
+			// Un-mark the event so Stripe's retry is processed again instead of being treated as a duplicate.
+			await this.manager.storage.delete(`processedEvent:${event.id}`);
+
+			if (error instanceof ListenerError) {
+				this.manager.emit('debug', `Listener failed for webhook event ${event.id}: ${error.message}`);
+				return { status: 500, message: error.message };
+			}
+
+			throw error;
 		}
+	}
+
+	// An event can dispatch several times, each dispatch is remembered so the retry after a failed listener only re-runs the ones that did not go through.
+	private async dispatchForEvent<K extends keyof ManagerEvents>(event: Stripe.Event, name: K, ...args: ManagerEvents[K]): Promise<void> {
+		const key = `dispatchedEvent:${event.id}:${name}`;
+		if (await this.manager.storage.has(key)) return;
 
-		if (!this.processedEvents.has(event.id)) this.processedEvents.add(event.id);
-		else return { status: 200, message: 'Webhook event already processed.' };
+		await this.manager.dispatch(name, ...args);
+		await this.manager.storage.set(key, true, this.processedEventsTtl);
+	}
 
+	private async internalProcessEvent(event: Stripe.Event, payload: unknown): Promise<WebhookResponse> {
 		switch (event.type) {
 			case 'invoice.paid': {
 				const invoice = event.data.object;
@@ -109,23 +379,19 @@ export default class StripeManager {
 					)
 				) return { status: 400, message: 'Missing metadata in subscription.' };
 
-				const isUserSubscription = subscription.metadata.isUserSub === 'true';
-				const subscriptionType = isUserSubscription ? 'user' : 'guild';
-
 				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription?.metadata.tierId);
 				if (!tierData) return { status: 400, message: `Tier not found for ID ${subscription.metadata.tierId} locally (#1).` };
 
 				switch (invoice.billing_reason) {
 					case 'subscription_create': {
-						const eventData = {
-							type: subscriptionType,
-							tier: tierData,
-
-							isAnnual: subscription.metadata.isAnnual === 'true',
-							addons: await this.addons.getAddonsFromItems(subscription.items.data) ?? [],
+						if (subscription.trial_end) {
+							const isUserSubscription = subscription.metadata.isUserSub === 'true';
+							await this.subscriptions.markTrialUsed(isUserSubscription ? 'user' : 'guild', (isUserSubscription ? subscription.metadata.userId : subscription.metadata.guildId) ?? '');
+						}
 
-							userId: subscription.metadata.userId,
-							guildId: subscription.metadata.guildId ?? null,
+						const eventData = {
+							...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
+							usage: await this.usage.getInvoiceUsage(invoice),
 
 							raw: {
 								subscription: subscription,
@@ -133,19 +399,13 @@ export default class StripeManager {
 							},
 						} as const;
 
-						this.manager.emit('subscriptionCreate', eventData);
+						await this.dispatchForEvent(event, 'subscriptionCreate', eventData);
 						break;
 					}
 					case 'subscription_cycle': {
 						const eventData = {
-							type: subscriptionType,
-							tier: tierData,
-
-							isAnnual: subscription.metadata.isAnnual === 'true',
-							addons: await this.addons.getAddonsFromItems(subscription.items.data) ?? [],
-
-							userId: subscription.metadata.userId,
-							guildId: subscription.metadata.guildId ?? null,
+							...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
+							usage: await this.usage.getInvoiceUsage(invoice),
 
 							raw: {
 								subscription: subscription,
@@ -153,7 +413,7 @@ export default class StripeManager {
 							},
 						} as const;
 
-						this.manager.emit('subscriptionRenew', eventData);
+						await this.dispatchForEvent(event, 'subscriptionRenew', eventData);
 						break;
 					}
 				}
@@ -173,9 +433,6 @@ export default class StripeManager {
 					)
 				) return { status: 400, message: 'Missing metadata in subscription.' };
 
-				const isUserSubscription = subscription.data.metadata.isUserSub === 'true';
-				const subscriptionType = isUserSubscription ? 'user' : 'guild';
-
 				const stripeAddons = await this.addons.getStripeAddons();
 				const addonItems = await this.addons.getAddonsFromItems(subscription.data.items.data, stripeAddons) ?? [];
 
@@ -184,22 +441,46 @@ export default class StripeManager {
 
 				if (subscription.data.status === 'canceled' && subscription.previous.status !== 'canceled') {
 					const eventData = {
-						type: subscriptionType,
-						tier: tierData,
+						...this.internalBuildSubscriptionData(subscription.data, tierData, addonItems),
+
+						raw: {
+							subscription: subscription.data,
+							previous: subscription.previous,
+						},
+					} as const;
+
+					await this.dispatchForEvent(event, 'subscriptionCancel', eventData);
+				}
 
-						isAnnual: subscription.data.metadata.isAnnual === 'true',
-						addons: addonItems,
+				// A trial whose first payment fails is not over yet, it converts once paid and expires if the subscription ends unpaid.
+				const trialKey = `trialAwaitingPayment:${subscription.data.id}`;
+				const wasTrialing = subscription.previous.status === 'trialing' || (subscription.previous.status !== undefined && await this.manager.storage.has(trialKey));
 
-						userId: subscription.data.metadata.userId,
-						guildId: subscription.data.metadata.guildId ?? null,
+				if (wasTrialing && subscription.data.status === 'active') {
+					const eventData = {
+						...this.internalBuildSubscriptionData(subscription.data, tierData, addonItems),
 
 						raw: {
 							subscription: subscription.data,
-							previous: subscription.previous,
 						},
 					} as const;
 
-					this.manager.emit('subscriptionCancel', eventData);
+					await this.dispatchForEvent(event, 'trialConverted', eventData);
+					await this.manager.storage.delete(trialKey);
+				} else if (subscription.previous.status === 'trialing' && subscription.data.status !== 'trialing' && subscription.data.status !== 'canceled') {
+					await this.manager.storage.set(trialKey, true);
+				}
+
+				// Paused and resumed subscriptions keep their status, only pause_collection changes.
+				if ('pause_collection' in subscription.previous && Boolean(subscription.previous.pause_collection) !== Boolean(subscription.data.pause_collection)) {
+					const baseData = this.internalBuildSubscriptionData(subscription.data, tierData, addonItems);
+					const raw = {
+						subscription: subscription.data,
+						previous: subscription.previous,
+					} as const;
+
+					if (baseData.pause) await this.dispatchForEvent(event, 'subscriptionPause', { ...baseData, pause: baseData.pause, raw });
+					else await this.dispatchForEvent(event, 'subscriptionResume', { ...baseData, raw });
 				}
 
 				const downgradeOrUpgrade = await this.tiers.checkIfTierChange(subscription.data.items.data, subscription.previous.items?.data || []);
@@ -209,24 +490,36 @@ export default class StripeManager {
 					if (!newTierData || !oldTierData) return { status: 400, message: `Tier not found for ID ${downgradeOrUpgrade.newTierId} or ${downgradeOrUpgrade.oldTierId} locally (#3).` };
 
 					const eventData = {
-						type: subscriptionType,
+						...this.internalBuildSubscriptionData(subscription.data, newTierData, addonItems),
 
 						newTier: newTierData,
 						oldTier: oldTierData,
 
-						isAnnual: subscription.data.metadata.isAnnual === 'true',
-						addons: addonItems,
-
-						userId: subscription.data.metadata.userId,
-						guildId: subscription.data.metadata.guildId ?? null,
-
 						raw: {
 							subscription: subscription.data,
 							previous: subscription.previous,
 						},
 					} as const;
 
-					this.manager.emit('subscriptionTierChange', eventData);
+					await this.dispatchForEvent(event, 'subscriptionTierChange', eventData);
+				} else {
+					const previousTierItem = subscription.previous.items?.data.find((item) => item.price.metadata._internal_id === subscription.data.metadata.tierId);
+					const seats = getSubscriptionSeats(subscription.data);
+
+					if (previousTierItem && (previousTierItem.quantity ?? 1) !== seats) {
+						const eventData = {
+							...this.internalBuildSubscriptionData(subscription.data, tierData, addonItems),
+
+							previousSeats: previousTierItem.quantity ?? 1,
+
+							raw: {
+								subscription: subscription.data,
+								previous: subscription.previous,
+							},
+						} as const;
+
+						await this.dispatchForEvent(event, 'subscriptionSeatsChange', eventData);
+					}
 				}
 
 				const addonsChange = await this.addons.checkIfAddonChange(subscription.data.items.data, subscription.previous.items?.data || [], stripeAddons);
@@ -258,34 +551,22 @@ export default class StripeManager {
 					for (const addon of theRest) addonUpdates.push({ whatHappened: WhatHappened.Nothing, addon, qty: addon.quantity });
 
 					const eventData = {
-						type: subscriptionType,
-						tier: tierData,
+						...this.internalBuildSubscriptionData(subscription.data, tierData, addonsChange.currentAddons),
 
-						isAnnual: subscription.data.metadata.isAnnual === 'true',
 						currentAddons: addonsChange.currentAddons,
 						addonUpdates,
 
-						userId: subscription.data.metadata.userId,
-						guildId: subscription.data.metadata.guildId ?? null,
-
 						raw: {
 							subscription: subscription.data,
 							previous: subscription.previous,
 						},
 					} as const;
 
-					this.manager.emit('subscriptionAddonsUpdate', eventData);
+					await this.dispatchForEvent(event, 'subscriptionAddonsUpdate', eventData);
 				}
 
 				const eventData = {
-					type: subscriptionType,
-					tier: tierData,
-
-					isAnnual: subscription.data.metadata.isAnnual === 'true',
-					addons: addonItems,
-
-					userId: subscription.data.metadata.userId,
-					guildId: subscription.data.metadata.guildId ?? null,
+					...this.internalBuildSubscriptionData(subscription.data, tierData, addonItems),
 
 					raw: {
 						subscription: subscription.data,
@@ -293,7 +574,7 @@ export default class StripeManager {
 					},
 				} as const;
 
-				this.manager.emit('subscriptionUpdate', eventData);
+				await this.dispatchForEvent(event, 'subscriptionUpdate', eventData);
 
 				break;
 			}
@@ -313,28 +594,98 @@ export default class StripeManager {
 					)
 				) return { status: 400, message: 'Missing metadata in subscription.' };
 
-				const isUserSubscription = subscription.data.metadata.isUserSub === 'true';
-				const subscriptionType = isUserSubscription ? 'user' : 'guild';
-
 				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.data?.metadata.tierId);
 				if (!tierData) return { status: 400, message: `Tier not found for ID ${subscription.data.metadata.tierId} locally (#4).` };
 
 				const eventData = {
-					type: subscriptionType,
-					tier: tierData,
+					...this.internalBuildSubscriptionData(subscription.data, tierData, await this.addons.getAddonsFromItems(subscription.data.items.data) ?? []),
+
+					raw: {
+						subscription: subscription.data,
+					},
+				} as const;
+
+				await this.dispatchForEvent(event, 'subscriptionDelete', eventData);
 
-					isAnnual: subscription.data.metadata.isAnnual === 'true',
-					addons: await this.addons.getAddonsFromItems(subscription.data.items.data) ?? [],
+				// Ended before (or exactly when) the trial did, or while its first payment was still due, so it never converted.
+				const { trial_end: trialEnd, ended_at: endedAt } = subscription.data;
+				const trialKey = `trialAwaitingPayment:${subscription.data.id}`;
 
-					userId: subscription.data.metadata.userId,
-					guildId: subscription.data.metadata.guildId ?? null,
+				if ((trialEnd && endedAt && endedAt <= trialEnd) || await this.manager.storage.has(trialKey)) await this.dispatchForEvent(event, 'trialExpired', eventData);
+				await this.manager.storage.delete(trialKey);
+
+				break;
+			}
+			case 'customer.subscription.trial_will_end': {
+				const subscription = event.data.object;
+				if (
+					!subscription.metadata.tierId ||
+					!subscription.metadata.userId ||
+					(
+						!subscription.metadata.guildId &&
+						!subscription.metadata.isUserSub
+					)
+				) return { status: 400, message: 'Missing metadata in subscription.' };
+
+				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.metadata.tierId);
+				if (!tierData) return { status: 400, message: `Tier not found for ID ${subscription.metadata.tierId} locally, cannot announce the end of its trial.` };
+
+				const eventData = {
+					...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
 
 					raw: {
-						subscription: subscription.data,
+						subscription: subscription,
 					},
 				} as const;
 
-				this.manager.emit('subscriptionDelete', eventData);
+				await this.dispatchForEvent(event, 'trialWillEnd', eventData);
+				break;
+			}
+			case 'checkout.session.completed':
+			case 'checkout.session.async_payment_succeeded': {
+				const session = event.data.object;
+				if (session.mode !== 'payment' || (session.metadata?.isGift !== 'true' && session.metadata?.isPurchase !== 'true')) return { status: 200, message: 'Checkout session ignored.' };
+				else if (session.payment_status === 'unpaid') return { status: 200, message: 'Checkout session is awaiting payment.' };
+				else if (session.metadata.isPurchase === 'true') {
+					const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+
+					const paymentIntent = paymentIntentId ? await this.stripe.paymentIntents.retrieve(paymentIntentId).catch(() => null) : null;
+					if (!paymentIntent) return { status: 400, message: 'Failed to retrieve payment intent.' };
+
+					return this.internalHandlePurchase(event, paymentIntent);
+				} else if (!session.metadata.tierId || !session.metadata.userId || !session.metadata.months) return { status: 400, message: 'Missing metadata in checkout session.' };
+
+				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === session.metadata?.tierId);
+				if (!tierData) return { status: 400, message: `Tier not found for ID ${session.metadata.tierId} locally, cannot create the gift.` };
+
+				const gift = await this.subscriptions.internalCreateGift(session);
+				await this.dispatchForEvent(event, 'giftPurchased', { gift, raw: { session } });
+				break;
+			}
+			case 'payment_intent.succeeded': {
+				const paymentIntent = event.data.object;
+				if (paymentIntent.metadata.isPurchase !== 'true') return { status: 200, message: 'Payment intent ignored.' };
+
+				return this.internalHandlePurchase(event, paymentIntent);
+			}
+			case 'charge.refunded': {
+				const charge = event.data.object;
+				const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+				if (!paymentIntentId || !charge.refunded) return { status: 200, message: 'Charge is not fully refunded.' };
+
+				const purchase = await this.purchases.getPurchase(paymentIntentId);
+				if (!purchase) return { status: 200, message: 'Charge does not belong to a purchase.' };
+				else if (purchase.refundedAt) return { status: 200, message: 'Purchase already refunded.' };
+
+				const productData = this.manager.config.products?.find((product) => product.productId === purchase.productId);
+				if (!productData) return { status: 400, message: `Product not found for ID ${purchase.productId} locally, cannot refund the purchase.` };
+
+				const refunded = await this.purchases.internalRefundPurchase(purchase);
+
+				const tierData = productData.kind === 'lifetime' ? this.manager.config.premiumTiers.find((tier) => tier.tierId === productData.tierId) : null;
+				if (tierData) await this.dispatchForEvent(event, 'subscriptionDelete', this.purchases.internalBuildPurchaseData(refunded, tierData));
+
+				await this.dispatchForEvent(event, 'purchaseRefunded', { purchase: refunded, product: productData, raw: { charge } });
 				break;
 			}
 			case 'invoice.finalized': {
@@ -362,15 +713,8 @@ export default class StripeManager {
 				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription?.metadata.tierId);
 				if (!tierData) return { status: 400, message: `Tier not found for ID ${subscription.metadata.tierId} locally.` };
 
-				const isUserSubscription = subscription.metadata.isUserSub === 'true';
-				const subscriptionType = isUserSubscription ? 'user' : 'guild';
-
 				const eventData: InvoiceNeedsPayment = {
-					type: subscriptionType,
-					tier: tierData,
-
-					isAnnual: subscription.metadata.isAnnual === 'true',
-					addons: await this.addons.getAddonsFromItems(subscription.items.data) ?? [],
+					...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
 
 					finalTotal: invoice.total,
 
@@ -380,9 +724,7 @@ export default class StripeManager {
 
 					hostedUrl: invoice.hosted_invoice_url ?? null,
 					dueDate: invoice.due_date ? new Date(invoice.due_date * 1000) : null,
-
-					userId: subscription.metadata.userId,
-					guildId: subscription.metadata.guildId ?? null,
+					usage: await this.usage.getInvoiceUsage(invoice),
 
 					raw: {
 						subscription: subscription,
@@ -390,7 +732,7 @@ export default class StripeManager {
 					},
 				};
 
-				this.manager.emit('invoiceNeedsPayment', eventData);
+				await this.dispatchForEvent(event, 'invoiceNeedsPayment', eventData);
 				break;
 			}
 			case 'invoice.payment_failed':
@@ -413,15 +755,8 @@ export default class StripeManager {
 				const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription?.metadata.tierId);
 				if (!tierData) return { status: 400, message: `Tier not found for ID ${subscription.metadata.tierId} locally (#5).` };
 
-				const isUserSubscription = subscription.metadata.isUserSub === 'true';
-				const subscriptionType = isUserSubscription ? 'user' : 'guild';
-
 				const paymentFailedEventData: InvoicePaymentFailed = {
-					type: subscriptionType,
-					tier: tierData,
-
-					isAnnual: subscription.metadata.isAnnual === 'true',
-					addons: await this.addons.getAddonsFromItems(subscription.items.data) ?? [],
+					...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
 
 					finalTotal: invoice.total,
 
@@ -432,27 +767,20 @@ export default class StripeManager {
 					hostedUrl: invoice.hosted_invoice_url ?? null,
 					nextAttempt: invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null,
 
-					userId: subscription.metadata.userId,
-					guildId: subscription.metadata.guildId ?? null,
-
 					raw: {
 						subscription: subscription,
 						invoice: invoice,
 					},
 				};
 
-				this.manager.emit('invoicePaymentFailed', paymentFailedEventData);
+				await this.dispatchForEvent(event, 'invoicePaymentFailed', paymentFailedEventData);
 
 				if (
 					event.type === 'invoice.payment_action_required' ||
 					(invoice.attempt_count === 1 && event.type === 'invoice.payment_failed')
 				) {
 					const needsPaymentEventData: InvoiceNeedsPayment = {
-						type: subscriptionType,
-						tier: tierData,
-
-						isAnnual: subscription.metadata.isAnnual === 'true',
-						addons: await this.addons.getAddonsFromItems(subscription.items.data) ?? [],
+						...this.internalBuildSubscriptionData(subscription, tierData, await this.addons.getAddonsFromItems(subscription.items.data) ?? []),
 
 						finalTotal: invoice.total,
 
@@ -462,9 +790,7 @@ export default class StripeManager {
 
 						hostedUrl: invoice.hosted_invoice_url ?? null,
 						dueDate: invoice.due_date ? new Date(invoice.due_date * 1000) : null,
-
-						userId: subscription.metadata.userId,
-						guildId: subscription.metadata.guildId ?? null,
+						usage: await this.usage.getInvoiceUsage(invoice),
 
 						raw: {
 							subscription: subscription,
@@ -472,13 +798,13 @@ export default class StripeManager {
 						},
 					};
 
-					this.manager.emit('invoiceNeedsPayment', needsPaymentEventData);
+					await this.dispatchForEvent(event, 'invoiceNeedsPayment', needsPaymentEventData);
 				}
 
 				break;
 			}
 			case 'radar.early_fraud_warning.created': {
-				this.manager.emit('earlyFraudWarning', event.data.object);
+				await this.dispatchForEvent(event, 'earlyFraudWarning', event.data.object);
 
 				if (event.data.object.actionable) await this.stripe.refunds.create({ charge: typeof event.data.object.charge === 'string' ? event.data.object.charge : event.data.object.charge.id });
 				break;
@@ -486,7 +812,7 @@ export default class StripeManager {
 			case 'charge.dispute.created': {
 				const paymentIntentId = typeof event.data.object.payment_intent === 'string' ? event.data.object.payment_intent : event.data.object.payment_intent?.id;
 
-				this.manager.emit('disputeWarning', {
+				await this.dispatchForEvent(event, 'disputeWarning', {
 					amount: event.data.object.amount,
 					reason: event.data.object.reason,
 
@@ -516,18 +842,81 @@ export default class StripeManager {
 		};
 	}
 
+	// Payment-mode checkouts send both checkout.session.completed and payment_intent.succeeded, whichever arrives first records the purchase.
+	private async internalHandlePurchase(event: Stripe.Event, paymentIntent: Stripe.PaymentIntent): Promise<WebhookResponse> {
+		if (!paymentIntent.metadata.productId || !paymentIntent.metadata.userId) return { status: 400, message: 'Missing metadata in payment intent.' };
+
+		const productData = this.manager.config.products?.find((product) => product.productId === paymentIntent.metadata.productId);
+		if (!productData) return { status: 400, message: `Product not found for ID ${paymentIntent.metadata.productId} locally, cannot record the purchase.` };
+
+		// Checkout and payment intent events both report the same purchase, only the one that records it dispatches.
+		const purchase = await this.purchases.internalRecordPurchase(paymentIntent, productData);
+		if (!purchase) return { status: 200, message: 'Purchase already recorded.' };
+
+		try {
+			const tierData = productData.kind === 'lifetime' ? this.manager.config.premiumTiers.find((tier) => tier.tierId === productData.tierId) : null;
+			if (tierData) await this.dispatchForEvent(event, 'subscriptionCreate', this.purchases.internalBuildPurchaseData(purchase, tierData));
+
+			await this.dispatchForEvent(event, 'purchaseCompleted', { purchase, product: productData, raw: { paymentIntent } });
+		} catch (error) {
+			// Forget the purchase so the retried webhook records (and dispatches) it again.
+			await this.purchases.internalDeletePurchase(purchase);
+			throw error;
+		}
+
+		return { status: 200, message: 'Webhook processed successfully.' };
+	}
+
+	public internalBuildSubscriptionData(subscription: Stripe.Subscription, tierData: PremiumTier, addons: WithQuantity<StripeAddon>[]): BaseSubscriptionData & { source: 'stripe'; } {
+		const isUserSubscription = subscription.metadata.isUserSub === 'true';
+
+		return {
+			type: isUserSubscription ? 'user' : 'guild',
+			source: 'stripe',
+			tier: tierData,
+
+			interval: getSubscriptionInterval(subscription),
+			seats: getSubscriptionSeats(subscription),
+			addons,
+			featureSet: this.manager.resolveFeatureSet(tierData, addons),
+
+			trial: subscription.trial_start && subscription.trial_end ? {
+				isActive: subscription.status === 'trialing',
+				startedAt: new Date(subscription.trial_start * 1000),
+				endsAt: new Date(subscription.trial_end * 1000),
+			} : null,
+			pause: subscription.pause_collection ? {
+				behavior: subscription.pause_collection.behavior,
+				resumesAt: subscription.pause_collection.resumes_at ? new Date(subscription.pause_collection.resumes_at * 1000) : null,
+			} : null,
+
+			userId: subscription.metadata.userId ?? '',
+			guildId: isUserSubscription ? null : subscription.metadata.guildId ?? null,
+		};
+	}
+
 	private async internalWebhookSubscriptionRetrieve(subscriptionId: string | Stripe.Subscription, force = false): Promise<Stripe.Subscription | null> {
 		if (typeof subscriptionId === 'string') {
-			if (this.subscriptionsCache.has(subscriptionId) && !force) return this.subscriptionsCache.get(subscriptionId)!;
+			const cached = force ? undefined : await this.manager.storage.get<Stripe.Subscription>(`subscription:${subscriptionId}`);
+			if (cached) return cached;
+
 			const sub = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-			if (sub) this.subscriptionsCache.set(subscriptionId, sub);
+			if (sub) await this.manager.storage.set(`subscription:${subscriptionId}`, sub, this.subscriptionsCacheTtl);
 			return sub;
 		} else {
-			this.subscriptionsCache.set(subscriptionId.id, subscriptionId);
+			await this.manager.storage.set(`subscription:${subscriptionId.id}`, subscriptionId, this.subscriptionsCacheTtl);
 			return subscriptionId;
 		}
 	}
 
+	private async internalGetAllEvents(options?: Stripe.EventListParams, acc: Stripe.Event[] = [], startingAfter?: string): Promise<Stripe.Event[]> {
+		const events = await this.stripe.events.list({ ...options, limit: 100, starting_after: startingAfter });
+		acc.push(...events.data);
+
+		if (events.has_more) return this.internalGetAllEvents(options, acc, events.data[events.data.length - 1]?.id);
+		else return acc;
+	}
+
 	public async internalGetAllProducts(options?: Stripe.ProductListParams, acc: Stripe.Product[] = [], startingAfter?: string): Promise<Stripe.Product[]> {
 		const products = await this.stripe.products.list({ ...options, limit: 100, starting_after: startingAfter });
 		acc.push(...products.data);
@@ -536,6 +925,30 @@ export default class StripeManager {
 		else return acc;
 	}
 
+	public async internalGetAllCoupons(options?: Stripe.CouponListParams, acc: Stripe.Coupon[] = [], startingAfter?: string): Promise<Stripe.Coupon[]> {
+		const coupons = await this.stripe.coupons.list({ ...options, limit: 100, starting_after: startingAfter });
+		acc.push(...coupons.data);
+
+		if (coupons.has_more) return this.internalGetAllCoupons(options, acc, coupons.data[coupons.data.length - 1]?.id);
+		else return acc;
+	}
+
+	public async internalGetAllPromotionCodes(options?: Stripe.PromotionCodeListParams, acc: Stripe.PromotionCode[] = [], startingAfter?: string): Promise<Stripe.PromotionCode[]> {
+		const promotionCodes = await this.stripe.promotionCodes.list({ ...options, limit: 100, starting_after: startingAfter });
+		acc.push(...promotionCodes.data);
+
+		if (promotionCodes.has_more) return this.internalGetAllPromotionCodes(options, acc, promotionCodes.data[promotionCodes.data.length - 1]?.id);
+		else return acc;
+	}
+
+	public async internalGetAllMeters(options?: Stripe.Billing.MeterListParams, acc: Stripe.Billing.Meter[] = [], startingAfter?: string): Promise<Stripe.Billing.Meter[]> {
+		const meters = await this.stripe.billing.meters.list({ ...options, limit: 100, starting_after: startingAfter });
+		acc.push(...meters.data);
+
+		if (meters.has_more) return this.internalGetAllMeters(options, acc, meters.data[meters.data.length - 1]?.id);
+		else return acc;
+	}
+
 	public async internalGetAllPrices(options?: Stripe.PriceListParams, acc: Stripe.Price[] = [], startingAfter?: string): Promise<Stripe.Price[]> {
 		const prices = await this.stripe.prices.list({ ...options, limit: 100, starting_after: startingAfter });
 		acc.push(...prices.data);
@@ -545,272 +958,574 @@ export default class StripeManager {
 	}
 }
 
-export class StripeTiers {
+type CatalogItem = SyncItemRef & {
+	data: PremiumTier | Addon | OneTimeProduct;
+};
+
+export class StripeCatalog {
 	constructor (private readonly manager: PremiumManager, private readonly stripe: Stripe) { }
 
-	private async createTier(data: PremiumTier, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<Stripe.Product> {
-		if (data.priceCents <= 0) throw new Error(`Invalid price for tier ${data.tierId}: ${data.priceCents}.`);
+	public async planSync(which?: CatalogItemType): Promise<SyncOperation[]> {
+		const allProducts = await this.manager.stripeManager.internalGetAllProducts();
+		const operations: SyncOperation[] = [];
 
-		let product = allProducts.find((p) => p.metadata._internal_id === data.tierId && p.metadata._internal_type === data.type && p.metadata._internal_which === 'tier');
+		if (which !== 'coupon') operations.push(...await this.planProducts(allProducts, which));
+		if (!which || which === 'coupon') operations.push(...await this.planCoupons(allProducts));
 
-		if (!product) {
-			product = await this.stripe.products.create({
-				name: data.name,
-				metadata: {
-					_internal_type: data.type,
-					_internal_id: data.tierId,
-					_internal_which: 'tier',
-				},
-			});
-		} else if (!product.active) {
-			await this.stripe.products.update(product.id, { active: true, name: data.name });
+		return operations;
+	}
 
-			const productPrices = allPrices.filter((price) => price.product === product!.id).filter((price) => price.active === false);
-			for await (const price of productPrices) await this.stripe.prices.update(price.id, { active: true });
-		} else if (product.name !== data.name) {
-			await this.stripe.products.update(product.id, { name: data.name });
-		}
+	private async planProducts(allProducts: Stripe.Product[], which?: CatalogItemType): Promise<SyncOperation[]> {
+		const allPrices = await this.manager.stripeManager.internalGetAllPrices({ expand: ['data.currency_options'] });
 
-		const createOrUpdatePrice = async (interval: 'month' | 'year', amount: number): Promise<Stripe.Price> => {
-			const existingPrice = allPrices.find((price) => price.unit_amount === amount && price.recurring?.interval === interval && price.product === product.id);
+		const configured = this.getConfiguredItems();
+		const operations: SyncOperation[] = [];
 
-			if (existingPrice) {
-				if (!existingPrice.active) await this.stripe.prices.update(existingPrice.id, { active: true });
-				return existingPrice;
-			}
+		// Metered prices need their meter, so meters are always planned first.
+		if (!which || which === 'addon') operations.push(...await this.planMeters());
 
-			return await this.stripe.prices.create({
-				unit_amount: amount,
-				currency: data.currency ?? 'usd',
-				product: product.id,
-				active: data.isActive ?? true,
-				tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-				recurring: {
-					interval,
-				},
-				metadata: {
-					_internal_type: data.type,
-					_internal_id: data.tierId,
-					_internal_which: 'tier',
-				},
-			});
-		};
+		for (const item of configured) {
+			if (which && item.which !== which) continue;
+			operations.push(...this.planItem(item, allProducts, allPrices));
+		}
 
-		const monthlyPrice = await createOrUpdatePrice('month', data.priceCents).catch(() => null);
-		const yearlyPrice = await createOrUpdatePrice('year', data.priceCents * getYearlyMultiplier(data.yearlyMultiplier)).catch(() => null);
-		if (!monthlyPrice || !yearlyPrice) throw new Error('Failed to create or update prices for tier.');
+		if (this.manager.config.options?.stripe?.deleteUnknownTiers === false) return operations;
 
-		await this.stripe.products.update(product.id, { default_price: monthlyPrice.id });
-		return product;
-	}
+		for (const product of allProducts) {
+			const id = product.metadata._internal_id;
+			const productWhich = product.metadata._internal_which;
 
-	public async getStripeTiers(): Promise<StripeTier[]> {
-		return this.getStripeTiersInternal();
-	}
+			if (!product.active || !id || (productWhich !== 'tier' && productWhich !== 'addon' && productWhich !== 'product')) continue;
+			else if ((which && productWhich !== which) || configured.some((item) => item.which === productWhich && item.id === id)) continue;
 
-	private async getStripeTiersInternal(getExtra?: boolean, internalAllProducts?: Stripe.Product[], internalAllPrices?: Stripe.Price[]): Promise<StripeTier[]> {
-		const allProducts = internalAllProducts || await this.manager.stripeManager.internalGetAllProducts();
-		const allPrices = internalAllPrices || await this.manager.stripeManager.internalGetAllPrices();
+			const item: SyncItemRef = { which: productWhich, id };
+			operations.push({ type: 'archiveProduct', item, productId: product.id });
 
-		const tiers: StripeTier[] = [];
+			for (const price of allPrices) {
+				if (price.product !== product.id || !price.active) continue;
+				operations.push({ type: 'archivePrice', item, priceId: price.id, interval: getPriceInterval(price) });
+			}
+		}
 
-		for await (const product of allProducts) {
-			const monthlyPrice = allPrices.find((price) => price.recurring?.interval === 'month' && price.product === product.id);
-			const yearlyPrice = allPrices.find((price) => price.recurring?.interval === 'year' && price.product === product.id);
-			if (!monthlyPrice || !yearlyPrice) continue;
+		return operations;
+	}
 
-			const tierId = product.metadata._internal_id;
-			const tierType = product.metadata._internal_type;
-			const tierWhich = product.metadata._internal_which;
+	private async planMeters(): Promise<SyncOperation[]> {
+		const meteredAddons = this.manager.config.addons.filter((addon) => addon.metered);
+		if (!meteredAddons.length) return [];
 
-			if (!tierId || !tierType || !tierWhich) continue;
-			else if (tierWhich !== 'tier' || (!this.manager.config.premiumTiers.some((tier) => tier.tierId === tierId) && !getExtra)) continue;
-			else if (!['guild', 'user'].includes(tierType)) throw new Error(`Invalid tier type for product ${product.id} (${tierId}): ${tierType}.`);
+		const allMeters = await this.manager.stripeManager.internalGetAllMeters();
+		const operations: SyncOperation[] = [];
 
-			const exists = tiers.find((tier) => tier.tierId === tierId);
-			if (exists) continue;
+		for (const addon of meteredAddons) {
+			const item: SyncItemRef = { which: 'addon', id: addon.addonId };
+			const eventName = getMeterEventName(addon);
 
-			tiers.push({
-				tierId,
-				type: tierType as 'guild' | 'user',
-				name: product.name,
-				isActive: product.active,
-				priceCents: monthlyPrice.unit_amount ?? 0,
-				stripeProductId: product.id,
-				monthlyPriceId: monthlyPrice.id,
-				yearlyPriceId: yearlyPrice.id,
-			});
+			const meter = allMeters.find((m) => m.event_name === eventName);
+			if (!meter) operations.push({ type: 'createMeter', item, eventName, displayName: addon.name });
+			else if (meter.status === 'inactive') operations.push({ type: 'reactivateMeter', item, meterId: meter.id, eventName });
 		}
 
-		return tiers;
+		return operations;
 	}
 
-	private async changeActiveState(tierId: string, isActive: boolean, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<boolean> {
-		const tiers = await this.getStripeTiersInternal(true, allProducts, allPrices);
-		const tier = tiers.find((tier) => tier.tierId === tierId);
-		if (!tier) throw new Error(`Tier not found for ID ${tierId} (#1).`);
-		else if (tier.isActive === isActive) return true;
+	private async planCoupons(allProducts: Stripe.Product[]): Promise<SyncOperation[]> {
+		const coupons = this.manager.config.coupons ?? [];
 
-		await this.stripe.products.update(tier.stripeProductId, {
-			active: isActive,
-		});
+		const allCoupons = await this.manager.stripeManager.internalGetAllCoupons({ expand: ['data.applies_to'] });
+		const allPromotionCodes = await this.manager.stripeManager.internalGetAllPromotionCodes();
 
-		await this.stripe.prices.update(tier.monthlyPriceId, {
-			active: isActive,
-		});
+		const operations: SyncOperation[] = [];
+		for (const coupon of coupons) operations.push(...this.planCoupon(coupon, allCoupons, allPromotionCodes, allProducts));
 
-		await this.stripe.prices.update(tier.yearlyPriceId, {
-			active: isActive,
-		});
+		if (!this.manager.config.options?.stripe?.deleteUnknownCoupons) return operations;
 
-		return true;
-	}
+		for (const stripeCoupon of allCoupons) {
+			const id = stripeCoupon.metadata?._internal_id ?? stripeCoupon.id;
+			if (stripeCoupon.metadata?._internal_which !== 'coupon' || coupons.some((coupon) => coupon.couponId === id)) continue;
 
-	private async changePrice(tierId: string, priceCents: number, currency: string, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<boolean> {
-		const tiers = await this.getStripeTiersInternal(true, allProducts, allPrices);
-		const tier = tiers.find((tier) => tier.tierId === tierId);
-		if (!tier) throw new Error(`Tier not found for ID ${tierId} (#2).`);
-		else if (priceCents === tier.priceCents) return true;
-
-		const monthlyPrice = await this.stripe.prices.retrieve(tier.monthlyPriceId).catch(() => null);
-		const yearlyPrice = await this.stripe.prices.retrieve(tier.yearlyPriceId).catch(() => null);
-
-		const newMonthlyPrice = allPrices.find((price) =>
-			price.active === true &&
-			price.currency === currency &&
-			price.unit_amount === priceCents &&
-			price.recurring?.interval === 'month' &&
-			price.product === tier.stripeProductId &&
-			price.metadata._internal_id === tierId &&
-			price.metadata._internal_which === 'tier' &&
-			price.metadata._internal_type === tier.type,
-		) || await this.stripe.prices.create({
-			unit_amount: priceCents,
-			currency: currency ?? 'usd',
-			product: tier.stripeProductId,
-			active: true,
-			tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-			recurring: {
-				interval: 'month',
-			},
-			metadata: {
-				_internal_type: tier.type,
-				_internal_id: tier.tierId,
-				_internal_which: 'tier',
-			},
-		}).catch(() => null);
-
-		const newYearlyPrice = allPrices.find((price) =>
-			price.active === true &&
-			price.currency === currency &&
-			price.recurring?.interval === 'year' &&
-			price.unit_amount === priceCents * getYearlyMultiplier(tier.yearlyMultiplier) &&
-			price.product === tier.stripeProductId &&
-			price.metadata._internal_id === tierId &&
-			price.metadata._internal_which === 'tier' &&
-			price.metadata._internal_type === tier.type,
-		) || await this.stripe.prices.create({
-			unit_amount: priceCents * getYearlyMultiplier(tier.yearlyMultiplier),
-			currency: currency ?? 'usd',
-			product: tier.stripeProductId,
-			active: true,
-			tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-			recurring: {
-				interval: 'year',
-			},
-			metadata: {
-				_internal_type: tier.type,
-				_internal_id: tier.tierId,
-				_internal_which: 'tier',
-			},
-		}).catch(() => null);
+			const item: SyncItemRef = { which: 'coupon', id };
 
-		if (!newMonthlyPrice || !newYearlyPrice) throw new Error('Failed to create or update prices for tier.');
+			for (const promotionCode of allPromotionCodes) {
+				if (!promotionCode.active || this.getPromotionCouponId(promotionCode) !== stripeCoupon.id) continue;
+				operations.push({ type: 'archivePromotionCode', item, promotionCodeId: promotionCode.id, code: promotionCode.code });
+			}
 
-		await this.stripe.products.update(tier.stripeProductId, { default_price: newMonthlyPrice.id });
-		if (monthlyPrice && newMonthlyPrice.id !== monthlyPrice.id) await this.stripe.prices.update(monthlyPrice.id, { active: false });
-		if (yearlyPrice && newYearlyPrice.id !== yearlyPrice.id) await this.stripe.prices.update(yearlyPrice.id, { active: false });
+			operations.push({ type: 'deleteCoupon', item, couponId: stripeCoupon.id });
+		}
 
-		return true;
+		return operations;
 	}
 
-	private async deleteTier(tierId: string, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<boolean> {
-		const tiers = await this.getStripeTiersInternal(true, allProducts, allPrices);
-		const tier = tiers.find((tier) => tier.tierId === tierId);
-		if (!tier) throw new Error(`Tier not found for ID ${tierId} (#3).`);
+	// Coupon terms cannot be edited in Stripe, so changed terms create a new version of the coupon and move the promotion codes over to it.
+	// The old version is kept, subscriptions that already have it applied keep their discount.
+	private planCoupon(coupon: Coupon, allCoupons: Stripe.Coupon[], allPromotionCodes: Stripe.PromotionCode[], allProducts: Stripe.Product[]): SyncOperation[] {
+		const item: SyncItemRef = { which: 'coupon', id: coupon.couponId };
+		const { promotionCodes = [], ...terms } = coupon;
+
+		const unknownTierId = coupon.tierIds?.find((tierId) => !this.manager.config.premiumTiers.some((tier) => tier.tierId === tierId));
+		const unknownAddonId = coupon.addonIds?.find((addonId) => !this.manager.config.addons.some((addon) => addon.addonId === addonId));
+
+		if (!coupon.percentOff && !coupon.amountOffCents) {
+			this.manager.emit('debug', `Skipping coupon ${coupon.couponId} in sync plan, it needs percentOff or amountOffCents.`);
+			return [];
+		} else if (unknownTierId || unknownAddonId) {
+			this.manager.emit('debug', `Skipping coupon ${coupon.couponId} in sync plan, it references unknown ${unknownTierId ? `tier ${unknownTierId}` : `addon ${unknownAddonId}`}.`);
+			return [];
+		}
 
-		await this.stripe.products.update(tier.stripeProductId, {
-			active: false,
-		});
+		const versions = allCoupons.filter((c) => c.id === coupon.couponId || (c.metadata?._internal_which === 'coupon' && c.metadata._internal_id === coupon.couponId));
+		const existing = versions.find((c) => !c.metadata?._internal_replaced_by);
+		const existingCodes = existing ? allPromotionCodes.filter((promotionCode) => this.getPromotionCouponId(promotionCode) === existing.id) : [];
 
-		await this.stripe.prices.update(tier.monthlyPriceId, {
-			active: false,
-		});
+		const archiveOperations: SyncOperation[] = [];
+		const operations: SyncOperation[] = [];
 
-		await this.stripe.prices.update(tier.yearlyPriceId, {
-			active: false,
-		});
+		if (!existing || !this.hasCouponTerms(existing, coupon, allProducts)) {
+			for (const promotionCode of existingCodes) {
+				if (promotionCode.active) archiveOperations.push({ type: 'archivePromotionCode', item, promotionCodeId: promotionCode.id, code: promotionCode.code });
+			}
 
-		return true;
+			const version = Math.max(0, ...versions.map((c) => Number(c.metadata?._internal_version ?? 1))) + 1;
+			const couponId = version === 1 ? coupon.couponId : `${coupon.couponId}_v${version}`;
+
+			operations.push({ type: 'createCoupon', item, couponId, version, replaces: existing?.id ?? null, coupon: terms });
+
+			for (const promotionCode of promotionCodes) operations.push({ type: 'createPromotionCode', item, couponId, promotionCode });
+			return [...archiveOperations, ...operations];
+		}
+
+		if (existing.name !== coupon.name) operations.push({ type: 'renameCoupon', item, couponId: existing.id, from: existing.name ?? '', to: coupon.name });
+
+		for (const promotionCode of promotionCodes) {
+			const isActive = promotionCode.isActive ?? true;
+
+			const sameCode = existingCodes.filter((c) => c.code.toLowerCase() === promotionCode.code.toLowerCase());
+			const match = sameCode.find((c) => this.hasPromotionCodeTerms(c, promotionCode));
+
+			if (!match) operations.push({ type: 'createPromotionCode', item, couponId: existing.id, promotionCode });
+			else if (!match.active && isActive) operations.push({ type: 'reactivatePromotionCode', item, promotionCodeId: match.id, code: match.code });
+			else if (match.active && !isActive) archiveOperations.push({ type: 'archivePromotionCode', item, promotionCodeId: match.id, code: match.code });
+
+			for (const c of sameCode) {
+				if (c.id !== match?.id && c.active) archiveOperations.push({ type: 'archivePromotionCode', item, promotionCodeId: c.id, code: c.code });
+			}
+		}
+
+		for (const c of existingCodes) {
+			if (!c.active || promotionCodes.some((promotionCode) => promotionCode.code.toLowerCase() === c.code.toLowerCase())) continue;
+			archiveOperations.push({ type: 'archivePromotionCode', item, promotionCodeId: c.id, code: c.code });
+		}
+
+		// Active codes have to be unique, so replaced ones are archived before their successors are created.
+		return [...archiveOperations, ...operations];
 	}
 
-	public async syncOrCreateTiers(): Promise<void> {
-		const allProducts = await this.manager.stripeManager.internalGetAllProducts();
-		const allPrices = await this.manager.stripeManager.internalGetAllPrices();
+	private hasCouponTerms(existing: Stripe.Coupon, coupon: Coupon, allProducts: Stripe.Product[]): boolean {
+		const amountOff = coupon.percentOff ? null : coupon.amountOffCents ?? null;
+		const productIds = this.getCouponProductIds(coupon, (ref) => allProducts.find((p) => p.metadata._internal_id === ref.id && p.metadata._internal_which === ref.which)?.id);
+
+		const existingProductIds = existing.applies_to?.products ?? [];
+
+		return (
+			(existing.percent_off ?? null) === (coupon.percentOff ?? null) &&
+			existing.amount_off === amountOff &&
+			(amountOff === null || existing.currency === (coupon.currency ?? 'usd').toLowerCase()) &&
+			existing.duration === coupon.duration &&
+			(existing.duration_in_months ?? null) === (coupon.duration === 'repeating' ? coupon.durationInMonths ?? null : null) &&
+			existing.max_redemptions === (coupon.maxRedemptions ?? null) &&
+			existing.redeem_by === (coupon.expiresAt ? Math.floor(new Date(coupon.expiresAt).getTime() / 1000) : null) &&
+			existingProductIds.length === productIds.length &&
+			productIds.every((productId) => productId && existingProductIds.includes(productId))
+		);
+	}
 
-		const stripeTiers = await this.getStripeTiersInternal(true, allProducts, allPrices);
-		const stripeTierIds = stripeTiers.map((tier) => tier.tierId);
+	private hasPromotionCodeTerms(existing: Stripe.PromotionCode, promotionCode: PromotionCode): boolean {
+		return (
+			existing.max_redemptions === (promotionCode.maxRedemptions ?? null) &&
+			existing.expires_at === (promotionCode.expiresAt ? Math.floor(new Date(promotionCode.expiresAt).getTime() / 1000) : null) &&
+			existing.restrictions.first_time_transaction === (promotionCode.firstTimeOnly ?? false)
+		);
+	}
 
-		const missingTiers = this.manager.config.premiumTiers.filter((tier) => !stripeTierIds.includes(tier.tierId));
-		const foundTiers = this.manager.config.premiumTiers.filter((tier) => stripeTierIds.includes(tier.tierId));
-		const extraTiers = stripeTiers.filter((tier) => !this.manager.config.premiumTiers.some((t) => t.tierId === tier.tierId) && tier.isActive);
+	private getCouponProductIds<T>(coupon: Omit<Coupon, 'promotionCodes'>, getProductId: (ref: SyncItemRef) => T): T[] {
+		return [
+			...(coupon.tierIds ?? []).map((id) => getProductId({ which: 'tier', id })),
+			...(coupon.addonIds ?? []).map((id) => getProductId({ which: 'addon', id })),
+		];
+	}
 
-		await this.createMissingTiers(missingTiers, allProducts, allPrices);
-		await this.updateExistingTiers(foundTiers, stripeTiers, allProducts, allPrices);
-		await this.deleteExtraTiers(extraTiers, allProducts, allPrices);
+	private getPromotionCouponId(promotionCode: Stripe.PromotionCode): string | null {
+		const { coupon } = promotionCode.promotion;
+		return typeof coupon === 'string' ? coupon : coupon?.id ?? null;
 	}
 
-	private async createMissingTiers(missingTiers: PremiumTier[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for await (const tier of missingTiers) {
-			await this.createTier(tier, allProducts, allPrices).catch(() => null);
+	public async applySync(plan: SyncOperation[]): Promise<void> {
+		const createdProducts: Map<string, string> = new Map();
+		const createdPrices: Map<string, string> = new Map();
+
+		const getProductId = (item: SyncItemRef, productId: string | null): string => {
+			const resolved = productId ?? createdProducts.get(`${item.which}:${item.id}`);
+			if (!resolved) throw new StripeCordError(ErrorCode.PriceSyncFailed, `No product was created for ${item.which} ${item.id} before it was referenced in the plan.`, this.getContext(item));
+
+			return resolved;
+		};
+
+		const createdMeters: Map<string, string> = new Map();
+
+		let allProducts: Stripe.Product[] | null = null;
+		let allMeters: Stripe.Billing.Meter[] | null = null;
+
+		const getCatalogProductId = async (ref: SyncItemRef): Promise<string | undefined> => {
+			const created = createdProducts.get(`${ref.which}:${ref.id}`);
+			if (created) return created;
+
+			allProducts ??= await this.manager.stripeManager.internalGetAllProducts();
+			return allProducts.find((p) => p.metadata._internal_id === ref.id && p.metadata._internal_which === ref.which)?.id;
+		};
+
+		const getMeterId = async (eventName: string): Promise<string | undefined> => {
+			const created = createdMeters.get(eventName);
+			if (created) return created;
+
+			allMeters ??= await this.manager.stripeManager.internalGetAllMeters();
+			return allMeters.find((m) => m.event_name === eventName)?.id;
+		};
+
+		for (const operation of plan) {
+			const { item } = operation;
+			this.manager.emit('debug', `Applying sync operation ${operation.type} for ${item.which} ${item.id}.`);
+
+			switch (operation.type) {
+				case 'createProduct': {
+					const product = await this.stripe.products.create({
+						name: operation.name,
+						active: operation.active,
+						metadata: {
+							_internal_type: operation.tierType,
+							_internal_id: item.id,
+							_internal_which: item.which,
+						},
+					});
+
+					createdProducts.set(`${item.which}:${item.id}`, product.id);
+					break;
+				}
+				case 'renameProduct': {
+					await this.stripe.products.update(operation.productId, { name: operation.to });
+					break;
+				}
+				case 'changeTypeMetadata': {
+					await this.stripe.products.update(operation.productId, {
+						metadata: {
+							_internal_type: operation.to,
+							_internal_id: item.id,
+							_internal_which: item.which,
+						},
+					});
+					break;
+				}
+				case 'reactivateProduct':
+				case 'archiveProduct': {
+					await this.stripe.products.update(operation.productId, { active: operation.type === 'reactivateProduct' });
+					break;
+				}
+				case 'createPrice': {
+					const taxBehavior = this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive';
+					const currencyOptions = Object.entries(operation.currencyOptions).map(([currency, unitAmount]) => [currency, { unit_amount: unitAmount, tax_behavior: taxBehavior }]);
+
+					const meterId = operation.meterEventName ? await getMeterId(operation.meterEventName) : undefined;
+					if (operation.meterEventName && !meterId) throw new StripeCordError(ErrorCode.PriceSyncFailed, `No meter exists for event ${operation.meterEventName} of ${item.which} ${item.id}.`, this.getContext(item));
+
+					const price = await this.stripe.prices.create({
+						unit_amount: operation.unitAmount,
+						currency: operation.currency,
+						currency_options: currencyOptions.length ? Object.fromEntries(currencyOptions) : undefined,
+						product: getProductId(item, operation.productId),
+						active: operation.active,
+						tax_behavior: taxBehavior,
+						recurring: operation.interval ? { ...IntervalRecurrence[operation.interval], ...(meterId ? { usage_type: 'metered', meter: meterId } : {}) } : undefined,
+						metadata: {
+							_internal_type: operation.tierType,
+							_internal_id: item.id,
+							_internal_which: item.which,
+							...(operation.interval ? { _internal_interval: operation.interval } : {}),
+							_internal_version: String(operation.version),
+						},
+					});
+
+					createdPrices.set(`${item.which}:${item.id}:${operation.interval}`, price.id);
+					break;
+				}
+				case 'reactivatePrice':
+				case 'archivePrice': {
+					await this.stripe.prices.update(operation.priceId, { active: operation.type === 'reactivatePrice' });
+					break;
+				}
+				case 'setDefaultPrice': {
+					const priceId = operation.priceId ?? createdPrices.get(`${item.which}:${item.id}:${operation.interval}`);
+					if (!priceId) throw new StripeCordError(ErrorCode.PriceSyncFailed, `No ${operation.interval ?? 'one-time'} price was created for ${item.which} ${item.id} before it was referenced in the plan.`, this.getContext(item));
+
+					await this.stripe.products.update(getProductId(item, operation.productId), { default_price: priceId });
+					break;
+				}
+				case 'createMeter': {
+					const meter = await this.stripe.billing.meters.create({
+						display_name: operation.displayName,
+						event_name: operation.eventName,
+						default_aggregation: { formula: 'sum' },
+						customer_mapping: { event_payload_key: 'stripe_customer_id', type: 'by_id' },
+						value_settings: { event_payload_key: 'value' },
+					});
+
+					createdMeters.set(operation.eventName, meter.id);
+					break;
+				}
+				case 'reactivateMeter': {
+					await this.stripe.billing.meters.reactivate(operation.meterId);
+					break;
+				}
+				case 'createCoupon': {
+					const { coupon } = operation;
+
+					const productIds = await Promise.all(this.getCouponProductIds(coupon, getCatalogProductId));
+					if (productIds.some((productId) => !productId)) throw new StripeCordError(ErrorCode.PriceSyncFailed, `Coupon ${item.id} references a tier or addon that does not exist in Stripe.`, this.getContext(item));
+
+					const amountOff = coupon.percentOff ? undefined : coupon.amountOffCents;
+
+					await this.stripe.coupons.create({
+						id: operation.couponId,
+						name: coupon.name,
+						percent_off: coupon.percentOff,
+						amount_off: amountOff,
+						currency: amountOff ? (coupon.currency ?? 'usd').toLowerCase() : undefined,
+						duration: coupon.duration,
+						duration_in_months: coupon.duration === 'repeating' ? coupon.durationInMonths : undefined,
+						max_redemptions: coupon.maxRedemptions,
+						redeem_by: coupon.expiresAt ? Math.floor(new Date(coupon.expiresAt).getTime() / 1000) : undefined,
+						applies_to: productIds.length ? { products: productIds as string[] } : undefined,
+						metadata: {
+							_internal_id: item.id,
+							_internal_which: 'coupon',
+							_internal_version: String(operation.version),
+						},
+					});
+
+					if (operation.replaces) await this.stripe.coupons.update(operation.replaces, { metadata: { _internal_replaced_by: operation.couponId } });
+					break;
+				}
+				case 'renameCoupon': {
+					await this.stripe.coupons.update(operation.couponId, { name: operation.to });
+					break;
+				}
+				case 'deleteCoupon': {
+					await this.stripe.coupons.del(operation.couponId);
+					break;
+				}
+				case 'createPromotionCode': {
+					const { promotionCode } = operation;
+
+					await this.stripe.promotionCodes.create({
+						promotion: { type: 'coupon', coupon: operation.couponId },
+						code: promotionCode.code,
+						active: promotionCode.isActive ?? true,
+						max_redemptions: promotionCode.maxRedemptions,
+						expires_at: promotionCode.expiresAt ? Math.floor(new Date(promotionCode.expiresAt).getTime() / 1000) : undefined,
+						restrictions: promotionCode.firstTimeOnly ? { first_time_transaction: true } : undefined,
+					});
+					break;
+				}
+				case 'reactivatePromotionCode':
+				case 'archivePromotionCode': {
+					await this.stripe.promotionCodes.update(operation.promotionCodeId, { active: operation.type === 'reactivatePromotionCode' });
+					break;
+				}
+			}
 		}
 	}
 
-	private async updateExistingTiers(foundTiers: PremiumTier[], stripeTiers: StripeTier[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for (const tier of foundTiers) {
-			const stripeTier = stripeTiers.find((t) => t.tierId === tier.tierId);
-			if (!stripeTier) continue;
+	// Operations are grouped so the default price always moves before the price it replaces gets archived.
+	private planItem(item: CatalogItem, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): SyncOperation[] {
+		const { data } = item;
+		const ref: SyncItemRef = { which: item.which, id: item.id };
 
-			if (stripeTier.priceCents !== tier.priceCents) {
-				await this.changePrice(tier.tierId, tier.priceCents, tier.currency || 'usd', allProducts, allPrices);
-			}
+		if (data.priceCents <= 0) {
+			this.manager.emit('debug', `Skipping ${item.which} ${item.id} in sync plan, invalid price: ${data.priceCents}.`);
+			return [];
+		}
 
-			if (stripeTier.isActive !== tier.isActive) {
-				await this.changeActiveState(tier.tierId, tier.isActive, allProducts, allPrices);
-			}
+		const currency = (data.currency ?? 'usd').toLowerCase();
+		const intervals: (BillingInterval | null)[] = 'kind' in data ? [null] : getBillingIntervals(data);
+		const meterEventName = 'metered' in data && data.metered ? getMeterEventName(data) : null;
+		const defaultInterval = intervals.includes('monthly') ? 'monthly' : intervals[0];
 
-			if (stripeTier.name !== tier.name) {
-				await this.stripe.products.update(stripeTier.stripeProductId, {
-					name: tier.name,
-				});
-			}
+		const getPricing = (interval: BillingInterval | null) => {
+			const prices = interval && !meterEventName ? getIntervalPrices(data, interval) : getCurrencyPrices(data);
+			return { unitAmount: prices[currency] ?? data.priceCents, currencyOptions: this.getCurrencyOptions(prices, currency) };
+		};
 
-			if (stripeTier.type !== tier.type) {
-				await this.stripe.products.update(stripeTier.stripeProductId, {
-					metadata: {
-						_internal_type: tier.type,
-						_internal_id: tier.tierId,
-						_internal_which: 'tier',
-					},
-				});
+		const product = allProducts.find((p) => p.metadata._internal_id === item.id && p.metadata._internal_which === item.which);
+
+		if (!product) {
+			return [
+				{ type: 'createProduct', item: ref, name: data.name, tierType: data.type, active: data.isActive },
+				...intervals.map((interval): SyncOperation => ({ type: 'createPrice', item: ref, productId: null, interval, version: 1, ...getPricing(interval), currency, tierType: data.type, active: data.isActive, meterEventName })),
+				...(defaultInterval !== undefined && data.isActive ? [{ type: 'setDefaultPrice', item: ref, productId: null, priceId: null, interval: defaultInterval } as const] : []),
+			];
+		}
+
+		const productOperations: SyncOperation[] = [];
+		const priceOperations: SyncOperation[] = [];
+		const defaultOperations: SyncOperation[] = [];
+		const archiveOperations: SyncOperation[] = [];
+
+		if (product.name !== data.name) productOperations.push({ type: 'renameProduct', item: ref, productId: product.id, from: product.name, to: data.name });
+		if (product.metadata._internal_type !== data.type) productOperations.push({ type: 'changeTypeMetadata', item: ref, productId: product.id, from: product.metadata._internal_type ?? null, to: data.type });
+
+		if (!product.active && data.isActive) productOperations.push({ type: 'reactivateProduct', item: ref, productId: product.id });
+		else if (product.active && !data.isActive) productOperations.push({ type: 'archiveProduct', item: ref, productId: product.id });
+
+		const productPrices = allPrices.filter((price) => price.product === product.id);
+		const version = Math.max(0, ...getPriceVersions(productPrices).values()) + 1;
+
+		for (const price of productPrices) {
+			const interval = getPriceInterval(price);
+			if (!price.active || intervals.includes(interval)) continue;
+
+			archiveOperations.push({ type: 'archivePrice', item: ref, priceId: price.id, interval });
+		}
+
+		for (const interval of intervals) {
+			const { unitAmount, currencyOptions } = getPricing(interval);
+
+			const prices = productPrices.filter((price) => getPriceInterval(price) === interval);
+			const match = prices.find((price) => price.unit_amount === unitAmount && price.currency === currency && this.hasCurrencyOptions(price, currencyOptions) && (price.recurring?.usage_type === 'metered') === Boolean(meterEventName));
+
+			if (!match) priceOperations.push({ type: 'createPrice', item: ref, productId: product.id, interval, version, unitAmount, currency, currencyOptions, tierType: data.type, active: data.isActive, meterEventName });
+			else if (!match.active && data.isActive) priceOperations.push({ type: 'reactivatePrice', item: ref, priceId: match.id, interval });
+			else if (match.active && !data.isActive) archiveOperations.push({ type: 'archivePrice', item: ref, priceId: match.id, interval });
+
+			for (const price of prices) {
+				if (price.id === match?.id || !price.active) continue;
+				archiveOperations.push({ type: 'archivePrice', item: ref, priceId: price.id, interval });
 			}
+
+			if (interval !== defaultInterval || !data.isActive) continue;
+
+			const defaultPriceId = typeof product.default_price === 'string' ? product.default_price : product.default_price?.id;
+			if (!match || match.id !== defaultPriceId) defaultOperations.push({ type: 'setDefaultPrice', item: ref, productId: product.id, priceId: match?.id ?? null, interval });
 		}
+
+		return [...productOperations, ...priceOperations, ...defaultOperations, ...archiveOperations];
 	}
 
-	private async deleteExtraTiers(extraTiers: StripeTier[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for await (const tier of extraTiers) {
-			await this.deleteTier(tier.tierId, allProducts, allPrices);
+	private getCurrencyOptions(prices: Record<string, number>, baseCurrency: string): Record<string, number> {
+		return Object.fromEntries(Object.entries(prices).filter(([currency]) => currency !== baseCurrency));
+	}
+
+	// Expanded currency_options also lists the base currency, which is already compared through unit_amount.
+	private hasCurrencyOptions(price: Stripe.Price, currencyOptions: Record<string, number>): boolean {
+		const existing = Object.entries(price.currency_options ?? {}).filter(([currency]) => currency !== price.currency);
+		if (existing.length !== Object.keys(currencyOptions).length) return false;
+
+		return existing.every(([currency, option]) => option.unit_amount === currencyOptions[currency]);
+	}
+
+	private getConfiguredItems(): CatalogItem[] {
+		return [
+			...this.manager.config.premiumTiers.map((tier): CatalogItem => ({ which: 'tier', id: tier.tierId, data: tier })),
+			...this.manager.config.addons.map((addon): CatalogItem => ({ which: 'addon', id: addon.addonId, data: addon })),
+			...(this.manager.config.products ?? []).map((product): CatalogItem => ({ which: 'product', id: product.productId, data: product })),
+		];
+	}
+
+	private getContext(item: SyncItemRef): ErrorContext {
+		if (item.which === 'tier') return { tierId: item.id };
+		else if (item.which === 'addon') return { addonId: item.id };
+		else if (item.which === 'product') return { oneTimeProductId: item.id };
+		else return { couponId: item.id };
+	}
+}
+
+export class StripeTiers {
+	constructor (private readonly manager: PremiumManager) { }
+
+	public async getStripeTiers(): Promise<StripeTier[]> {
+		return this.getStripeTiersInternal();
+	}
+
+	public async getPriceVersions(tierId: string): Promise<PriceVersion[]> {
+		const allProducts = await this.manager.stripeManager.internalGetAllProducts();
+
+		const product = allProducts.find((p) => p.metadata._internal_id === tierId && p.metadata._internal_which === 'tier');
+		if (!product) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${tierId}.`, { tierId });
+
+		const prices = await this.manager.stripeManager.internalGetAllPrices({ product: product.id });
+		const versions = getPriceVersions(prices);
+
+		return prices.flatMap((price): PriceVersion[] => {
+			const interval = getPriceInterval(price);
+			const version = versions.get(price.id);
+			if (!interval || !version) return [];
+
+			return [{
+				version,
+				interval,
+				priceId: price.id,
+				unitAmount: price.unit_amount ?? 0,
+				currency: price.currency,
+				isCurrent: price.active,
+				createdAt: new Date(price.created * 1000),
+			}];
+		}).sort((a, b) => a.version - b.version);
+	}
+
+	private async getStripeTiersInternal(getExtra?: boolean, internalAllProducts?: Stripe.Product[], internalAllPrices?: Stripe.Price[]): Promise<StripeTier[]> {
+		const allProducts = internalAllProducts || await this.manager.stripeManager.internalGetAllProducts();
+		const allPrices = internalAllPrices || await this.manager.stripeManager.internalGetAllPrices();
+
+		const tiers: StripeTier[] = [];
+
+		for await (const product of allProducts) {
+			const productPrices = allPrices.filter((price) => price.product === product.id).sort((a, b) => Number(b.active) - Number(a.active));
+			const priceIds: Partial<Record<BillingInterval, string>> = {};
+
+			for (const price of productPrices) {
+				const interval = getPriceInterval(price);
+				if (interval && !priceIds[interval]) priceIds[interval] = price.id;
+			}
+
+			// Shown as the monthly price, or the price of the first interval for products that are not billed monthly.
+			const displayPrice = productPrices.find((price) => price.id === (priceIds.monthly ?? BillingIntervals.map((interval) => priceIds[interval]).find(Boolean)));
+			if (!Object.keys(priceIds).length) continue;
+
+			const tierId = product.metadata._internal_id;
+			const tierType = product.metadata._internal_type;
+			const tierWhich = product.metadata._internal_which;
+
+			if (!tierId || !tierType || !tierWhich) continue;
+			else if (tierWhich !== 'tier' || (!this.manager.config.premiumTiers.some((tier) => tier.tierId === tierId) && !getExtra)) continue;
+			else if (!['guild', 'user'].includes(tierType)) throw new TierError(ErrorCode.TierTypeMismatch, `Invalid tier type for product ${product.id} (${tierId}): ${tierType}.`, { tierId, productId: product.id });
+
+			const exists = tiers.find((tier) => tier.tierId === tierId);
+			if (exists) continue;
+
+			tiers.push({
+				tierId,
+				type: tierType as 'guild' | 'user',
+				name: product.name,
+				isActive: product.active,
+				priceCents: displayPrice?.unit_amount ?? 0,
+				stripeProductId: product.id,
+				priceIds,
+			});
 		}
+
+		return tiers;
+	}
+
+	public async syncOrCreateTiers(): Promise<void> {
+		await this.manager.stripeManager.catalog.applySync(await this.manager.stripeManager.catalog.planSync('tier'));
 	}
 
 	public async getTiersFromItems(items: Stripe.SubscriptionItem[], stripeTiers?: StripeTier[]): Promise<StripeTier[]> {
@@ -849,63 +1564,7 @@ export class StripeTiers {
 }
 
 export class StripeAddons {
-	constructor (private readonly manager: PremiumManager, private readonly stripe: Stripe) { }
-
-	private async createAddon(data: Addon, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<Stripe.Product> {
-		if (data.priceCents <= 0) throw new Error(`Invalid price for addon ${data.addonId}: ${data.priceCents}.`);
-
-		let product = allProducts.find((p) => p.metadata._internal_id === data.addonId && p.metadata._internal_type === data.type && p.metadata._internal_which === 'addon');
-
-		if (!product) {
-			product = await this.stripe.products.create({
-				name: data.name,
-				metadata: {
-					_internal_type: data.type,
-					_internal_id: data.addonId,
-					_internal_which: 'addon',
-				},
-			});
-		} else if (!product.active) {
-			await this.stripe.products.update(product.id, { active: true });
-
-			const productPrices = allPrices.filter((price) => price.product === product!.id).filter((price) => price.active === false);
-			for await (const price of productPrices) await this.stripe.prices.update(price.id, { active: true });
-		} else if (product.name !== data.name) {
-			await this.stripe.products.update(product.id, { name: data.name });
-		}
-
-		const createOrUpdatePrice = async (interval: 'month' | 'year', amount: number): Promise<Stripe.Price> => {
-			const existingPrice = allPrices.find((price) => price.unit_amount === amount && price.recurring?.interval === interval && price.product === product.id);
-
-			if (existingPrice) {
-				if (!existingPrice.active) await this.stripe.prices.update(existingPrice.id, { active: true });
-				return existingPrice;
-			}
-
-			return await this.stripe.prices.create({
-				unit_amount: amount,
-				currency: data.currency ?? 'usd',
-				product: product.id,
-				active: data.isActive ?? true,
-				tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-				recurring: {
-					interval,
-				},
-				metadata: {
-					_internal_type: data.type,
-					_internal_id: data.addonId,
-					_internal_which: 'addon',
-				},
-			});
-		};
-
-		const monthlyPrice = await createOrUpdatePrice('month', data.priceCents).catch(() => null);
-		const yearlyPrice = await createOrUpdatePrice('year', data.priceCents * getYearlyMultiplier(data.yearlyMultiplier)).catch(() => null);
-		if (!monthlyPrice || !yearlyPrice) throw new Error('Failed to create or update prices for addon.');
-
-		await this.stripe.products.update(product.id, { default_price: monthlyPrice.id });
-		return product;
-	}
+	constructor (private readonly manager: PremiumManager) { }
 
 	public async getStripeAddons(): Promise<StripeAddon[]> {
 		return this.getStripeAddonsInternal();
@@ -918,9 +1577,17 @@ export class StripeAddons {
 		const addons: StripeAddon[] = [];
 
 		for await (const product of allProducts) {
-			const monthlyPrice = allPrices.find((price) => price.recurring?.interval === 'month' && price.product === product.id);
-			const yearlyPrice = allPrices.find((price) => price.recurring?.interval === 'year' && price.product === product.id);
-			if (!monthlyPrice || !yearlyPrice) continue;
+			const productPrices = allPrices.filter((price) => price.product === product.id).sort((a, b) => Number(b.active) - Number(a.active));
+			const priceIds: Partial<Record<BillingInterval, string>> = {};
+
+			for (const price of productPrices) {
+				const interval = getPriceInterval(price);
+				if (interval && !priceIds[interval]) priceIds[interval] = price.id;
+			}
+
+			// Shown as the monthly price, or the price of the first interval for products that are not billed monthly.
+			const displayPrice = productPrices.find((price) => price.id === (priceIds.monthly ?? BillingIntervals.map((interval) => priceIds[interval]).find(Boolean)));
+			if (!Object.keys(priceIds).length) continue;
 
 			const addonId = product.metadata._internal_id;
 			const addonType = product.metadata._internal_type;
@@ -928,191 +1595,31 @@ export class StripeAddons {
 
 			if (!addonId || !addonType || !addonWhich) continue;
 			else if (addonWhich !== 'addon' || (!this.manager.config.addons.some((addon) => addon.addonId === addonId) && !getExtra)) continue;
-			else if (!['guild', 'user'].includes(addonType)) throw new Error(`Invalid addon type for product ${product.id} (${addonId}): ${addonType}`);
+			else if (!['guild', 'user'].includes(addonType)) throw new AddonError(ErrorCode.AddonTypeMismatch, `Invalid addon type for product ${product.id} (${addonId}): ${addonType}.`, { addonId, productId: product.id });
 
 			const exists = addons.find((addon) => addon.addonId === addonId);
 			if (exists) continue;
 
+			const meterId = productPrices.find((price) => price.recurring?.meter)?.recurring?.meter ?? null;
+
 			addons.push({
 				addonId,
 				type: addonType as 'guild' | 'user',
 				name: product.name,
 				isActive: product.active,
-				priceCents: monthlyPrice.unit_amount ?? 0,
+				priceCents: displayPrice?.unit_amount ?? 0,
+				metered: Boolean(meterId),
 				stripeProductId: product.id,
-				monthlyPriceId: monthlyPrice.id,
-				yearlyPriceId: yearlyPrice.id,
+				meterId,
+				priceIds,
 			});
 		}
 
 		return addons;
 	}
 
-	private async changeActiveState(addonId: string, isActive: boolean, allProducts: Stripe.Product[]): Promise<boolean> {
-		const addons = await this.getStripeAddonsInternal(true, allProducts);
-		const addon = addons.find((addon) => addon.addonId === addonId);
-		if (!addon) throw new Error(`Addon not found for ID ${addonId} (#1).`);
-
-		await this.stripe.products.update(addon.stripeProductId, {
-			active: isActive,
-		});
-
-		await this.stripe.prices.update(addon.monthlyPriceId, {
-			active: isActive,
-		});
-
-		await this.stripe.prices.update(addon.yearlyPriceId, {
-			active: isActive,
-		});
-
-		return true;
-	}
-
-	private async changePrice(addonId: string, priceCents: number, currency: string, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<boolean> {
-		const addons = await this.getStripeAddonsInternal(true, allProducts, allPrices);
-		const addon = addons.find((addon) => addon.addonId === addonId);
-		if (!addon) throw new Error(`Addon not found for ID ${addonId} (#2).`);
-		else if (priceCents === addon.priceCents) return true;
-
-		const monthlyPrice = await this.stripe.prices.retrieve(addon.monthlyPriceId).catch(() => null);
-		const yearlyPrice = await this.stripe.prices.retrieve(addon.yearlyPriceId).catch(() => null);
-
-		const newMonthlyPrice = allPrices.find((price) =>
-			price.active === true &&
-			price.currency === currency &&
-			price.unit_amount === priceCents &&
-			price.recurring?.interval === 'month' &&
-			price.product === addon.stripeProductId &&
-			price.metadata._internal_id === addonId &&
-			price.metadata._internal_which === 'addon' &&
-			price.metadata._internal_type === addon.type,
-		) || await this.stripe.prices.create({
-			unit_amount: priceCents,
-			currency: currency ?? 'usd',
-			product: addon.stripeProductId,
-			active: true,
-			tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-			recurring: {
-				interval: 'month',
-			},
-			metadata: {
-				_internal_type: addon.type,
-				_internal_id: addon.addonId,
-				_internal_which: 'addon',
-			},
-		}).catch(() => null);
-
-		const newYearlyPrice = allPrices.find((price) =>
-			price.active === true &&
-			price.currency === currency &&
-			price.unit_amount === priceCents * getYearlyMultiplier(addon.yearlyMultiplier) &&
-			price.recurring?.interval === 'year' &&
-			price.product === addon.stripeProductId &&
-			price.metadata._internal_id === addonId &&
-			price.metadata._internal_which === 'addon' &&
-			price.metadata._internal_type === addon.type,
-		) || await this.stripe.prices.create({
-			unit_amount: priceCents * getYearlyMultiplier(addon.yearlyMultiplier),
-			currency: currency ?? 'usd',
-			product: addon.stripeProductId,
-			active: true,
-			tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
-			recurring: {
-				interval: 'year',
-			},
-			metadata: {
-				_internal_type: addon.type,
-				_internal_id: addon.addonId,
-				_internal_which: 'addon',
-			},
-		}).catch(() => null);
-
-		if (!newMonthlyPrice || !newYearlyPrice) throw new Error('Failed to create or update prices for addon.');
-
-		await this.stripe.products.update(addon.stripeProductId, { default_price: newMonthlyPrice.id });
-		if (monthlyPrice && newMonthlyPrice.id !== monthlyPrice.id) await this.stripe.prices.update(monthlyPrice.id, { active: false });
-		if (yearlyPrice && newYearlyPrice.id !== yearlyPrice.id) await this.stripe.prices.update(yearlyPrice.id, { active: false });
-
-		return true;
-	}
-
-	private async deleteAddon(addonId: string, allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<boolean> {
-		const addons = await this.getStripeAddonsInternal(true, allProducts, allPrices);
-		const addon = addons.find((addon) => addon.addonId === addonId);
-		if (!addon) throw new Error(`Addon not found for ID ${addonId} (#3).`);
-
-		await this.stripe.products.update(addon.stripeProductId, {
-			active: false,
-		});
-
-		await this.stripe.prices.update(addon.monthlyPriceId, {
-			active: false,
-		});
-
-		await this.stripe.prices.update(addon.yearlyPriceId, {
-			active: false,
-		});
-
-		return true;
-	}
-
 	public async syncOrCreateAddons(): Promise<void> {
-		const allProducts = await this.manager.stripeManager.internalGetAllProducts();
-		const allPrices = await this.manager.stripeManager.internalGetAllPrices();
-
-		const stripeAddons = await this.getStripeAddonsInternal(true, allProducts, allPrices);
-		const stripeAddonIds = stripeAddons.map((addon) => addon.addonId);
-
-		const missingAddons = this.manager.config.addons.filter((addon) => !stripeAddonIds.includes(addon.addonId));
-		const foundAddons = this.manager.config.addons.filter((addon) => stripeAddonIds.includes(addon.addonId));
-		const extraAddons = stripeAddons.filter((addon) => !this.manager.config.addons.some((a) => a.addonId === addon.addonId) && addon.isActive);
-
-		await this.createMissingAddons(missingAddons, allProducts, allPrices);
-		await this.updateExistingAddons(foundAddons, stripeAddons, allProducts, allPrices);
-		await this.deleteExtraAddons(extraAddons, allProducts, allPrices);
-	}
-
-	private async createMissingAddons(missingAddons: Addon[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for await (const addon of missingAddons) {
-			await this.createAddon(addon, allProducts, allPrices).catch(() => null);
-		}
-	}
-
-	private async updateExistingAddons(foundAddons: Addon[], stripeAddons: StripeAddon[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for (const addon of foundAddons) {
-			const stripeAddon = stripeAddons.find((a) => a.addonId === addon.addonId);
-			if (!stripeAddon) continue;
-
-			if (stripeAddon.priceCents !== addon.priceCents) {
-				await this.changePrice(addon.addonId, addon.priceCents, addon.currency || 'usd', allProducts, allPrices);
-			}
-
-			if (stripeAddon.isActive !== addon.isActive) {
-				await this.changeActiveState(addon.addonId, addon.isActive, allProducts);
-			}
-
-			if (stripeAddon.name !== addon.name) {
-				await this.stripe.products.update(stripeAddon.stripeProductId, {
-					name: addon.name,
-				});
-			}
-
-			if (stripeAddon.type !== addon.type) {
-				await this.stripe.products.update(stripeAddon.stripeProductId, {
-					metadata: {
-						_internal_type: addon.type,
-						_internal_id: addon.addonId,
-						_internal_which: 'addon',
-					},
-				});
-			}
-		}
-	}
-
-	private async deleteExtraAddons(extraAddons: StripeAddon[], allProducts: Stripe.Product[], allPrices: Stripe.Price[]): Promise<void> {
-		for await (const addon of extraAddons) {
-			await this.deleteAddon(addon.addonId, allProducts, allPrices).catch(() => null);
-		}
+		await this.manager.stripeManager.catalog.applySync(await this.manager.stripeManager.catalog.planSync('addon'));
 	}
 
 	public async getAddonsFromItems(items: Stripe.SubscriptionItem[], stripeAddons?: StripeAddon[]): Promise<WithQuantity<StripeAddon>[]> {
@@ -1128,7 +1635,7 @@ export class StripeAddons {
 
 			return {
 				...addon,
-				quantity: item.quantity,
+				quantity: item.quantity ?? 1, // Metered items have no quantity.
 			};
 		});
 
@@ -1181,7 +1688,7 @@ export class StripeSubscriptions {
 
 	public async getSubscriptionsFor(options: CustomerQueryData): Promise<{ user: Stripe.Subscription | null; guild: Stripe.Subscription[]; }> {
 		const customer = await this.stripeManager.customers.getCustomer(options);
-		if (!customer) throw new Error('Failed to get customer.');
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Failed to get customer.');
 
 		const subscriptions = await this.internalGetAllSubscriptions({ customer: customer.id });
 		if (!subscriptions) return { user: null, guild: [] };
@@ -1192,6 +1699,7 @@ export class StripeSubscriptions {
 		};
 	}
 
+	// Paused subscriptions are returned as well, check pause_collection or use isUserPremium() / isGuildPremium(), which treat them as not premium.
 	public async getUserSubscription(options: CustomerQueryData): Promise<Stripe.Subscription | null> {
 		const subscriptions = await this.getSubscriptionsFor(options);
 		return subscriptions.user;
@@ -1204,7 +1712,7 @@ export class StripeSubscriptions {
 
 	public async cancelSubscription(subscriptionId: string, immediately = false): Promise<boolean> {
 		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-		if (!subscription) throw new Error(`Subscription not found for ID ${subscriptionId} (#1).`);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
 
 		if (immediately) await this.stripe.subscriptions.cancel(subscriptionId, { invoice_now: true });
 		else await this.stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
@@ -1212,16 +1720,45 @@ export class StripeSubscriptions {
 		return true;
 	}
 
+	public async pauseSubscription(subscriptionId: string, options: PauseOptions): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') throw new SubscriptionError(ErrorCode.InvalidInput, `Subscription ${subscriptionId} has ended and cannot be paused.`, { subscriptionId });
+		else if (options.until && options.until.getTime() <= Date.now()) throw new SubscriptionError(ErrorCode.InvalidInput, 'Pause end date must be in the future.', { subscriptionId });
+
+		this.manager.emit('debug', `Pausing subscription ${subscriptionId} (${options.behavior}) ${options.until ? `until ${options.until.toISOString()}` : 'indefinitely'}.`);
+
+		await this.stripe.subscriptions.update(subscriptionId, {
+			pause_collection: {
+				behavior: options.behavior,
+				resumes_at: options.until ? Math.floor(options.until.getTime() / 1000) : undefined,
+			},
+		});
+
+		return true;
+	}
+
+	public async resumeSubscription(subscriptionId: string): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.pause_collection) return true;
+
+		this.manager.emit('debug', `Resuming subscription ${subscriptionId}.`);
+		await this.stripe.subscriptions.update(subscriptionId, { pause_collection: '' });
+
+		return true;
+	}
+
 	public async changeSubscriptionGuild(subscriptionId: string, newGuildId: string, guildName?: string, emitEvents = true): Promise<boolean> {
 		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-		if (!subscription) throw new Error(`Subscription not found for ID ${subscriptionId} (#4).`);
-		else if (!subscription.metadata.userId) throw new Error(`Missing user ID in subscription ${subscriptionId}.`);
-		else if (subscription.metadata.isUserSub === 'true') throw new Error('Cannot change guild for user subscriptions.');
-		else if (!subscription.metadata.guildId) throw new Error(`Missing guild ID in subscription ${subscriptionId} (#3).`);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.userId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing user ID in subscription ${subscriptionId}.`, { subscriptionId });
+		else if (subscription.metadata.isUserSub === 'true') throw new SubscriptionError(ErrorCode.SubscriptionTypeMismatch, 'Cannot change guild for user subscriptions.', { subscriptionId });
+		else if (!subscription.metadata.guildId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing guild ID in subscription ${subscriptionId}.`, { subscriptionId });
 		else if (subscription.metadata.guildId === newGuildId) return true;
 
 		const existingGuildSub = await this.getGuildSubscription({ guildId: newGuildId });
-		if (existingGuildSub) throw new Error('The new guild already has a subscription.');
+		if (existingGuildSub) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'The new guild already has a subscription.', { subscriptionId, guildId: newGuildId });
 
 		const oldGuildId = subscription.metadata.guildId;
 
@@ -1235,36 +1772,25 @@ export class StripeSubscriptions {
 
 		if (emitEvents) {
 			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.metadata.tierId);
-			if (!tierData) throw new Error(`Tier not found for ID ${subscription.metadata.tierId} (#6).`);
+			if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${subscription.metadata.tierId}.`, { tierId: subscription.metadata.tierId, subscriptionId });
 
 			const latestInvoice = typeof subscription.latest_invoice === 'string' ? await this.stripe.invoices.retrieve(subscription.latest_invoice) : subscription.latest_invoice;
-			if (!latestInvoice) throw new Error(`Latest invoice not found for subscription ${subscriptionId} (#5).`);
+			if (!latestInvoice) throw new SubscriptionError(ErrorCode.InvoiceFailed, `Latest invoice not found for subscription ${subscriptionId}.`, { subscriptionId });
 
 			const addons = await this.manager.stripeManager.addons.getAddonsFromItems(subscription.items.data) ?? [];
-			const isAnnual = subscription.metadata.isAnnual === 'true';
-
-			this.manager.emit('subscriptionDelete', {
-				type: 'guild',
-				tier: tierData,
+			const baseData = this.stripeManager.internalBuildSubscriptionData(subscription, tierData, addons);
 
-				userId: subscription.metadata.userId,
+			await this.manager.dispatch('subscriptionDelete', {
+				...baseData,
 				guildId: oldGuildId,
 
-				isAnnual,
-				addons,
-
 				raw: { subscription },
 			});
 
-			this.manager.emit('subscriptionCreate', {
-				type: 'guild',
-				tier: tierData,
-
-				userId: subscription.metadata.userId,
+			await this.manager.dispatch('subscriptionCreate', {
+				...baseData,
 				guildId: newGuildId,
-
-				isAnnual,
-				addons,
+				usage: await this.stripeManager.usage.getInvoiceUsage(latestInvoice),
 
 				raw: { subscription, invoice: latestInvoice },
 			});
@@ -1275,13 +1801,13 @@ export class StripeSubscriptions {
 
 	public async changeSubscriptionUser(subscriptionId: string, newUserId: string, emitEvents = true): Promise<boolean> {
 		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-		if (!subscription) throw new Error(`Subscription not found for ID ${subscriptionId} (#2).`);
-		else if (subscription.metadata.isUserSub !== 'true') throw new Error('Cannot change user for guild subscriptions.');
-		else if (!subscription.metadata.userId) throw new Error(`Missing user ID in subscription ${subscriptionId} (#5).`);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (subscription.metadata.isUserSub !== 'true') throw new SubscriptionError(ErrorCode.SubscriptionTypeMismatch, 'Cannot change user for guild subscriptions.', { subscriptionId });
+		else if (!subscription.metadata.userId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing user ID in subscription ${subscriptionId}.`, { subscriptionId });
 		else if (subscription.metadata.userId === newUserId) return true;
 
 		const existingUserSub = await this.getUserSubscription({ customerId: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id });
-		if (existingUserSub) throw new Error('The new user already has a user subscription.');
+		if (existingUserSub) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'The new user already has a user subscription.', { subscriptionId, userId: newUserId });
 
 		const oldUserId = subscription.metadata.userId;
 
@@ -1294,36 +1820,25 @@ export class StripeSubscriptions {
 
 		if (emitEvents) {
 			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.metadata.tierId);
-			if (!tierData) throw new Error(`Tier not found for ID ${subscription.metadata.tierId} (#7).`);
+			if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${subscription.metadata.tierId}.`, { tierId: subscription.metadata.tierId, subscriptionId });
 
 			const latestInvoice = typeof subscription.latest_invoice === 'string' ? await this.stripe.invoices.retrieve(subscription.latest_invoice) : subscription.latest_invoice;
-			if (!latestInvoice) throw new Error(`Latest invoice not found for subscription ${subscriptionId} (#6).`);
+			if (!latestInvoice) throw new SubscriptionError(ErrorCode.InvoiceFailed, `Latest invoice not found for subscription ${subscriptionId}.`, { subscriptionId });
 
 			const addons = await this.manager.stripeManager.addons.getAddonsFromItems(subscription.items.data) ?? [];
-			const isAnnual = subscription.metadata.isAnnual === 'true';
-
-			this.manager.emit('subscriptionDelete', {
-				type: 'user',
-				tier: tierData,
+			const baseData = this.stripeManager.internalBuildSubscriptionData(subscription, tierData, addons);
 
-				guildId: null,
+			await this.manager.dispatch('subscriptionDelete', {
+				...baseData,
 				userId: oldUserId,
 
-				isAnnual,
-				addons,
-
 				raw: { subscription },
 			});
 
-			this.manager.emit('subscriptionCreate', {
-				type: 'user',
-				tier: tierData,
-
-				guildId: null,
+			await this.manager.dispatch('subscriptionCreate', {
+				...baseData,
 				userId: newUserId,
-
-				isAnnual,
-				addons,
+				usage: await this.stripeManager.usage.getInvoiceUsage(latestInvoice),
 
 				raw: { subscription, invoice: latestInvoice },
 			});
@@ -1334,7 +1849,7 @@ export class StripeSubscriptions {
 
 	public async refundCharge(chargeId: string, isFraud = false): Promise<boolean> {
 		const charge = await this.stripe.charges.retrieve(chargeId).catch(() => null);
-		if (!charge) throw new Error(`Charge not found for ID ${chargeId}.`);
+		if (!charge) throw new StripeCordError(ErrorCode.ChargeNotFound, `Charge not found for ID ${chargeId}.`, { chargeId });
 
 		await this.stripe.refunds.create({
 			charge: charge.id,
@@ -1346,69 +1861,76 @@ export class StripeSubscriptions {
 
 	public async createCheckoutSession(data: SubscriptionCreateInputData): Promise<Stripe.Checkout.Session> {
 		const stripeTiers = await this.stripeManager.tiers.getStripeTiers();
-		if (!stripeTiers) throw new Error('Failed to get tiers.');
+		if (!stripeTiers) throw new TierError(ErrorCode.RequestFailed, 'Failed to get tiers.');
 
 		const tierData = stripeTiers.find((tier) => tier.tierId === data.tierId);
-		if (!tierData) throw new Error(`Tier not found for ID ${data.tierId} (#4).`);
-		else if (tierData.priceCents === 0) throw new Error('Tiers with a price of 0 cannot be subscribed to.');
-		else if (!tierData.isActive) throw new Error('Tier is not active.');
-		else if (data.addons?.some((addon) => addon.quantity < 1)) throw new Error('Addon quantities must be at least 1.');
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${data.tierId}.`, { tierId: data.tierId });
+		else if (!tierData.isActive) throw new TierError(ErrorCode.TierInactive, 'Tier is not active.', { tierId: data.tierId });
+		else if (data.addons?.some((addon) => addon.quantity < 1)) throw new AddonError(ErrorCode.InvalidQuantity, 'Addon quantities must be at least 1.', { tierId: data.tierId });
 
-		const joinIfExists = (s1: string | null, s2: string) => s1 ? `${s1}${s2}` : `https://example.com/checkout${s2}`;
+		const interval = data.interval ?? 'monthly';
+
+		const tierPriceId = tierData.priceIds[interval];
+		if (!tierPriceId) throw new TierError(ErrorCode.InvalidInput, `Tier ${data.tierId} cannot be billed ${interval}.`, { tierId: data.tierId });
+
+		const joinIfExists = (s1: string | null, s2: string) => s1 ? `${s1}${s2}` : `https://example.com/checkout${s2}`;
 
 		switch (tierData.type) {
 			case 'user': {
 				const stripeAddons = data.addons?.length ? await this.stripeManager.addons.getStripeAddons() : [];
 
 				const isAnyAddonNotUser = stripeAddons?.some((addon) => addon.type !== 'user');
-				if (isAnyAddonNotUser) throw new Error('User subscriptions cannot have guild addons.');
-				else if (data.guildId) throw new Error('User subscriptions cannot be created for guilds.');
+				if (isAnyAddonNotUser) throw new AddonError(ErrorCode.AddonTypeMismatch, 'User subscriptions cannot have guild addons.', { tierId: data.tierId });
+				else if (data.guildId) throw new SubscriptionError(ErrorCode.InvalidInput, 'User subscriptions cannot be created for guilds.', { tierId: data.tierId, guildId: data.guildId });
 
 				const customer = await this.stripeManager.customers.getOrCreateCustomer(data.customer);
-				if (!customer) throw new Error('Failed to create or get customer.');
-				else if (!customer.metadata.userId) throw new Error('Missing user ID in customer.');
+				if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Failed to create or get customer.', { userId: data.customer.userId });
+				else if (!customer.metadata.userId) throw new CustomerError(ErrorCode.InvalidMetadata, 'Missing user ID in customer.', { customerId: customer.id });
 
 				const userSub = await this.getUserSubscription({ customerId: customer.id });
-				if (userSub) throw new Error('User already has a user subscription.');
+				if (userSub) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'User already has a user subscription.', { tierId: data.tierId, userId: customer.metadata.userId, subscriptionId: userSub.id });
+
+				const currency = this.getCheckoutCurrency(data, customer);
 
-				const daysForTrial = data.trialEndsAt ? Math.round((data.trialEndsAt.getTime() - Date.now()) / 86400000) : 0;
+				const trial = await this.getCheckoutTrial(data, 'user', customer.metadata.userId);
 				const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [{
-					price: data.isAnnual ? tierData.yearlyPriceId : tierData.monthlyPriceId,
-					quantity: 1,
+					price: tierPriceId,
+					quantity: this.getSeats(data.tierId, data.seats),
 				}];
 
 				for (const addon of data.addons || []) {
 					const addonData = stripeAddons.find((a) => a.addonId === addon.addonId);
-					if (!addonData) throw new Error(`Addon not found for ID ${addon.addonId} (#4).`);
-					else if (addonData.priceCents === 0) throw new Error(`Addons with a price of 0 cannot be subscribed to (${addon.addonId}) (#1).`);
+					if (!addonData) throw new AddonError(ErrorCode.AddonNotFound, `Addon not found for ID ${addon.addonId}.`, { addonId: addon.addonId });
+
+					const addonPriceId = addonData.priceIds[interval];
+					if (!addonPriceId) throw new AddonError(ErrorCode.InvalidInput, `Addon ${addon.addonId} cannot be billed ${interval}.`, { addonId: addon.addonId });
 
 					lineItems.push({
-						price: data.isAnnual ? addonData.yearlyPriceId : addonData.monthlyPriceId,
-						quantity: addon.quantity,
+						price: addonPriceId,
+						quantity: addonData.metered ? undefined : addon.quantity,
 					});
 				}
 
+				const discounts = await this.getCheckoutDiscounts(data, tierData, stripeAddons);
+
 				const session = await this.stripe.checkout.sessions.create({
 					customer: customer.id,
 					mode: 'subscription',
+					currency,
 					client_reference_id: customer.metadata.userId,
-					allow_promotion_codes: true,
+					allow_promotion_codes: discounts ? undefined : this.manager.config.options?.stripe?.allowPromotionCodes ?? true,
+					discounts,
 					line_items: lineItems,
 					success_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=true&userId=${customer.metadata.userId}`),
 					cancel_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=false&userId=${customer.metadata.userId}`),
 					subscription_data: {
-						trial_period_days: daysForTrial || undefined,
-						trial_settings: daysForTrial ? {
-							end_behavior: {
-								missing_payment_method: 'cancel',
-							},
-						} : undefined,
+						...trial,
 						metadata: {
 							...(data.metadata ?? {}),
 							tierId: tierData.tierId,
 							userId: customer.metadata.userId,
 							isUserSub: 'true',
-							isAnnual: data.isAnnual ? 'true' : 'false',
+							interval,
 						},
 					},
 					metadata: data.metadata ?? {},
@@ -1428,55 +1950,58 @@ export class StripeSubscriptions {
 				const stripeAddons = data.addons?.length ? await this.stripeManager.addons.getStripeAddons() : [];
 
 				const isAnyAddonNotGuild = stripeAddons?.some((addon) => addon.type !== 'guild');
-				if (isAnyAddonNotGuild) throw new Error('Guild subscriptions cannot have user addons.');
-				else if (!data.guildId) throw new Error('Guild subscriptions must be created for guilds.');
+				if (isAnyAddonNotGuild) throw new AddonError(ErrorCode.AddonTypeMismatch, 'Guild subscriptions cannot have user addons.', { tierId: data.tierId, guildId: data.guildId });
+				else if (!data.guildId) throw new SubscriptionError(ErrorCode.InvalidInput, 'Guild subscriptions must be created for guilds.', { tierId: data.tierId });
 
 				const customer = await this.stripeManager.customers.getOrCreateCustomer(data.customer);
-				if (!customer) throw new Error('Failed to create or get customer.');
-				else if (!customer.metadata.userId) throw new Error('Missing user ID in customer.');
+				if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Failed to create or get customer.', { userId: data.customer.userId });
+				else if (!customer.metadata.userId) throw new CustomerError(ErrorCode.InvalidMetadata, 'Missing user ID in customer.', { customerId: customer.id });
 
 				const guildSub = await this.getGuildSubscription({ guildId: data.guildId });
-				if (guildSub) throw new Error('Guild already has a guild subscription.');
+				if (guildSub) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'Guild already has a guild subscription.', { tierId: data.tierId, guildId: data.guildId, subscriptionId: guildSub.id });
 
-				const daysForTrial = data.trialEndsAt ? Math.round((data.trialEndsAt.getTime() - Date.now()) / 86400000) : 0;
+				const currency = this.getCheckoutCurrency(data, customer);
+
+				const trial = await this.getCheckoutTrial(data, 'guild', data.guildId);
 				const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [{
-					price: data.isAnnual ? tierData.yearlyPriceId : tierData.monthlyPriceId,
-					quantity: 1,
+					price: tierPriceId,
+					quantity: this.getSeats(data.tierId, data.seats),
 				}];
 
 				for (const addon of data.addons || []) {
 					const addonData = stripeAddons.find((a) => a.addonId === addon.addonId);
-					if (!addonData) throw new Error(`Addon not found for ID ${addon.addonId} (#5).`);
-					else if (addonData.priceCents === 0) throw new Error(`Addons with a price of 0 cannot be subscribed to (${addon.addonId}) (#2).`);
+					if (!addonData) throw new AddonError(ErrorCode.AddonNotFound, `Addon not found for ID ${addon.addonId}.`, { addonId: addon.addonId });
+
+					const addonPriceId = addonData.priceIds[interval];
+					if (!addonPriceId) throw new AddonError(ErrorCode.InvalidInput, `Addon ${addon.addonId} cannot be billed ${interval}.`, { addonId: addon.addonId });
 
 					lineItems.push({
-						price: data.isAnnual ? addonData.yearlyPriceId : addonData.monthlyPriceId,
-						quantity: addon.quantity,
+						price: addonPriceId,
+						quantity: addonData.metered ? undefined : addon.quantity,
 					});
 				}
 
+				const discounts = await this.getCheckoutDiscounts(data, tierData, stripeAddons);
+
 				const session = await this.stripe.checkout.sessions.create({
 					customer: customer.id,
 					mode: 'subscription',
+					currency,
 					client_reference_id: customer.metadata.userId,
-					allow_promotion_codes: true,
+					allow_promotion_codes: discounts ? undefined : this.manager.config.options?.stripe?.allowPromotionCodes ?? true,
+					discounts,
 					line_items: lineItems,
 					success_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=true&userId=${customer.metadata.userId}&guildId=${data.guildId}`),
 					cancel_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=false&userId=${customer.metadata.userId}&guildId=${data.guildId}`),
 					subscription_data: {
 						description: `Subscription for ${data.guildName || `guild ${data.guildId}`}.`,
-						trial_period_days: daysForTrial || undefined,
-						trial_settings: daysForTrial ? {
-							end_behavior: {
-								missing_payment_method: 'cancel',
-							},
-						} : undefined,
+						...trial,
 						metadata: {
 							...(data.metadata ?? {}),
 							tierId: tierData.tierId,
 							userId: customer.metadata.userId,
 							guildId: data.guildId,
-							isAnnual: data.isAnnual ? 'true' : 'false',
+							interval,
 						},
 					},
 					metadata: data.metadata ?? {},
@@ -1490,35 +2015,113 @@ export class StripeSubscriptions {
 		}
 	}
 
+	private async getCheckoutDiscounts(data: SubscriptionCreateInputData, tierData: StripeTier, stripeAddons: StripeAddon[]): Promise<Stripe.Checkout.SessionCreateParams.Discount[] | undefined> {
+		if (!data.promoCode) return undefined;
+
+		const addonProductIds = stripeAddons.filter((addon) => data.addons?.some((a) => a.addonId === addon.addonId)).map((addon) => addon.stripeProductId);
+		const promotionCode = await this.getPromotionCode(data.promoCode, [tierData.stripeProductId, ...addonProductIds], { tierId: data.tierId });
+
+		return [{ promotion_code: promotionCode.id }];
+	}
+
+	// Trial use is only remembered in the configured storage, with the default MemoryStorage it is forgotten on restart.
+	public async isTrialEligible(type: TierType, targetId: string): Promise<boolean> {
+		return !await this.manager.storage.has(`trialUsed:${type}:${targetId}`);
+	}
+
+	public async markTrialUsed(type: TierType, targetId: string): Promise<void> {
+		await this.manager.storage.set(`trialUsed:${type}:${targetId}`, true);
+	}
+
+	private async getCheckoutTrial(data: SubscriptionCreateInputData, type: TierType, targetId: string): Promise<Pick<Stripe.Checkout.SessionCreateParams.SubscriptionData, 'trial_end' | 'trial_period_days' | 'trial_settings'>> {
+		const trialDays = this.manager.config.premiumTiers.find((tier) => tier.tierId === data.tierId)?.trialDays;
+		if (!data.trialEndsAt && !trialDays) return {};
+
+		if (!await this.isTrialEligible(type, targetId)) {
+			this.manager.emit('debug', `Skipping trial for ${type} ${targetId}, a trial was already used.`);
+			return {};
+		}
+
+		return {
+			trial_end: data.trialEndsAt ? Math.floor(data.trialEndsAt.getTime() / 1000) : undefined,
+			trial_period_days: data.trialEndsAt ? undefined : trialDays,
+			trial_settings: {
+				end_behavior: {
+					missing_payment_method: 'cancel',
+				},
+			},
+		};
+	}
+
+	// An explicitly requested currency must be available, the customer's own currency is only used when it is.
+	private getCheckoutCurrency(data: SubscriptionCreateInputData, customer: Stripe.Customer): string | undefined {
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === data.tierId);
+		const addonsData = (data.addons || []).map((addon) => this.manager.config.addons.find((a) => a.addonId === addon.addonId));
+
+		const isSupported = (currency: string) => [tierData, ...addonsData].every((item) => item && currency in getCurrencyPrices(item));
+
+		if (data.currency) {
+			const currency = data.currency.toLowerCase();
+			if (!isSupported(currency)) throw new SubscriptionError(ErrorCode.InvalidInput, `Currency ${currency} is not available for tier ${data.tierId} and its addons.`, { tierId: data.tierId, customerId: customer.id });
+
+			return currency;
+		}
+
+		if (customer.currency && isSupported(customer.currency)) return customer.currency;
+		return undefined;
+	}
+
 	public async changeSubscriptionTier(subscriptionId: string, newTierId: string, options?: Partial<ChargeOptions>): Promise<boolean> {
+		const change = await this.planTierChange(subscriptionId, newTierId);
+		if (!change) return true;
+
+		this.manager.emit('debug', `Updating subscription ${subscriptionId} with tier ${newTierId}.`);
+		await this.updateAndCharge(change.subscription, change.customerId, change.params, options);
+
+		return true;
+	}
+
+	public async previewTierChange(subscriptionId: string, newTierId: string, options?: Partial<ChargeOptions>): Promise<ChangePreview> {
+		return this.previewChange(subscriptionId, await this.planTierChange(subscriptionId, newTierId), options);
+	}
+
+	// Shared by the change and its preview, so the previewed items are exactly the ones applied.
+	private async planTierChange(subscriptionId: string, newTierId: string): Promise<PlannedChange | null> {
 		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-		if (!subscription) throw new Error(`Subscription not found for ID ${subscriptionId} (#2).`);
-		else if (!subscription.metadata.userId) throw new Error(`Missing user ID in subscription ${subscriptionId}.`);
-		else if (!subscription.metadata.isUserSub && !subscription.metadata.guildId) throw new Error(`Missing guild ID in subscription ${subscriptionId} (#1).`);
-		else if (subscription.metadata.tierId === newTierId) return true;
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.userId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing user ID in subscription ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.isUserSub && !subscription.metadata.guildId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing guild ID in subscription ${subscriptionId}.`, { subscriptionId });
+		else if (subscription.metadata.tierId === newTierId) return null;
 
 		const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
-		if (!customerId) throw new Error(`Missing customer ID in subscription ${subscriptionId} (#1).`);
+		if (!customerId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing customer ID in subscription ${subscriptionId}.`, { subscriptionId });
 
 		const stripeTiers = await this.stripeManager.tiers.getStripeTiers();
-		if (!stripeTiers.length) throw new Error('Tiers not found.');
+		if (!stripeTiers.length) throw new TierError(ErrorCode.TierNotFound, 'Tiers not found.', { subscriptionId });
 
 		const newTierPrice = stripeTiers.find((tier) => tier.tierId === newTierId);
-		if (!newTierPrice) throw new Error(`Tier not found for ID ${newTierId} (#5).`);
-		else if (newTierPrice.priceCents === 0) throw new Error('Tiers with a price of 0 cannot be subscribed to.');
-		else if (!newTierPrice.isActive) throw new Error('Tier is not active.');
+		if (!newTierPrice) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${newTierId}.`, { tierId: newTierId, subscriptionId });
+		else if (!newTierPrice.isActive) throw new TierError(ErrorCode.TierInactive, 'Tier is not active.', { tierId: newTierId, subscriptionId });
 
 		const subscriptionType = subscription.metadata.isUserSub === 'true' ? 'user' : 'guild';
-		if (newTierPrice.type !== subscriptionType) throw new Error(`${subscriptionType === 'user' ? 'User' : 'Guild'} subscriptions cannot have tiers for the other type.`);
+		if (newTierPrice.type !== subscriptionType) throw new TierError(ErrorCode.TierTypeMismatch, `${subscriptionType === 'user' ? 'User' : 'Guild'} subscriptions cannot have tiers for the other type.`, { tierId: newTierId, subscriptionId });
 
 		const itemThatIsMainTier = subscription.items.data.find((item) => item.price.metadata._internal_id === subscription.metadata.tierId);
-		if (!itemThatIsMainTier) throw new Error(`Main tier not found for subscription ${subscriptionId} (#1).`);
+		if (!itemThatIsMainTier) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Main tier not found for subscription ${subscriptionId}.`, { subscriptionId, tierId: subscription.metadata.tierId });
+
+		const interval = getSubscriptionInterval(subscription);
+
+		const newTierPriceId = newTierPrice.priceIds[interval];
+		if (!newTierPriceId) throw new TierError(ErrorCode.InvalidInput, `Tier ${newTierId} cannot be billed ${interval}.`, { tierId: newTierId, subscriptionId });
+
+		// Seats carry over between seat-based tiers, kept within the new tier's limits.
+		const seatLimits = this.manager.config.premiumTiers.find((tier) => tier.tierId === newTierId)?.seats;
+		const seats = seatLimits ? Math.min(Math.max(itemThatIsMainTier.quantity ?? 1, seatLimits.min ?? 1), seatLimits.max ?? Infinity) : 1;
 
-		const isAnnual = subscription.metadata.isAnnual === 'true';
 		const newItems: Stripe.SubscriptionUpdateParams.Item[] = [{
 			id: itemThatIsMainTier.id,
-			price: isAnnual ? newTierPrice.yearlyPriceId : newTierPrice.monthlyPriceId,
-			quantity: 1,
+			price: newTierPriceId,
+			quantity: seats,
 		}];
 
 		for (const item of subscription.items.data) {
@@ -1526,112 +2129,84 @@ export class StripeSubscriptions {
 			else newItems.push({ id: item.id });
 		}
 
-		const chargeType = options?.chargeType || 'immediate';
-		let proration_behavior: 'create_prorations' | 'none';
-
-		if (chargeType === 'immediate') proration_behavior = 'create_prorations';
-		else if (chargeType === 'endOfPeriod') proration_behavior = 'none';
-		else proration_behavior = 'none';
-
-		this.manager.emit('debug', `Updating subscription ${subscriptionId} with tier ${newTierId} and proration behavior ${proration_behavior}.`);
-
-		await this.stripe.subscriptions.update(subscriptionId, {
-			proration_behavior,
-			items: newItems,
-			metadata: {
-				...subscription.metadata,
-				tierId: newTierId,
+		return {
+			subscription,
+			customerId,
+			params: {
+				items: newItems,
+				metadata: {
+					...subscription.metadata,
+					tierId: newTierId,
+				},
 			},
-		});
-
-		if (chargeType === 'immediate') {
-			const invoice = await this.stripe.invoices.create({
-				customer: customerId,
-				subscription: subscriptionId,
-				auto_advance: true,
-				default_payment_method: typeof subscription.default_payment_method === 'string' ? subscription.default_payment_method : subscription.default_payment_method?.id,
-				collection_method: 'charge_automatically',
-			});
-
-			if (!invoice.id) throw new Error(`Failed to create invoice for subscription ${subscriptionId} (#1).`);
-			const finalizedInvoice = await this.stripe.invoices.finalizeInvoice(invoice.id);
-
-			if (finalizedInvoice.total < 0) {
-				this.manager.emit('debug', `Subscription ${subscriptionId} has a negative total of ${finalizedInvoice.total}, and user was credited that amount.`);
-				await this.stripe.customers.update(customerId, {
-					balance: ((await this.stripeManager.customers.getCustomer({ customerId }))?.balance || 0) + Math.abs(finalizedInvoice.total),
-				});
-			} else if (finalizedInvoice.status === 'open') {
-				this.manager.emit('debug', `Subscription ${subscriptionId} has a total of ${finalizedInvoice.total}, and user was charged that amount.`);
-				await this.stripe.invoices.pay(invoice.id);
-			}
-		} else if (chargeType === 'sendInvoice') {
-			const invoice = await this.stripe.invoices.create({
-				customer: customerId,
-				subscription: subscriptionId,
-				auto_advance: true,
-				collection_method: 'send_invoice',
-				days_until_due: options?.dueDays || this.manager.config.options?.stripe?.defaultDueDays || 7,
-			});
+		};
+	}
 
-			if (!invoice.id) throw new Error(`Failed to create invoice for subscription ${subscriptionId} (#2).`);
-			await this.stripe.invoices.finalizeInvoice(invoice.id);
+	public async changeSubscriptionAddons(subscriptionId: string, newAddons: WithQuantity<Pick<Addon, 'addonId'>>[], options?: Partial<ChargeOptions>): Promise<boolean> {
+		const change = await this.planAddonChange(subscriptionId, newAddons);
+		if (!change) return true;
 
-			this.manager.emit('debug', `Subscription ${subscriptionId} has a total of ${invoice.total}, and an invoice was sent to the user.`);
-		}
+		this.manager.emit('debug', `Updating subscription ${subscriptionId} with addons: ${change.params.items?.map((item) => item.price).join(', ')}.`);
+		await this.updateAndCharge(change.subscription, change.customerId, change.params, options);
 
 		return true;
 	}
 
-	public async changeSubscriptionAddons(subscriptionId: string, newAddons: WithQuantity<Pick<Addon, 'addonId'>>[], options?: Partial<ChargeOptions>): Promise<boolean> {
+	public async previewAddonChange(subscriptionId: string, newAddons: WithQuantity<Pick<Addon, 'addonId'>>[], options?: Partial<ChargeOptions>): Promise<ChangePreview> {
+		return this.previewChange(subscriptionId, await this.planAddonChange(subscriptionId, newAddons), options);
+	}
+
+	private async planAddonChange(subscriptionId: string, newAddons: WithQuantity<Pick<Addon, 'addonId'>>[]): Promise<PlannedChange | null> {
 		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
-		if (!subscription) throw new Error(`Subscription not found for ID ${subscriptionId} (#3).`);
-		else if (!subscription.metadata.userId) throw new Error(`Missing user ID in subscription ${subscriptionId}.`);
-		else if (!subscription.metadata.isUserSub && !subscription.metadata.guildId) throw new Error(`Missing guild ID in subscription ${subscriptionId} (#2).`);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.userId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing user ID in subscription ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.isUserSub && !subscription.metadata.guildId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing guild ID in subscription ${subscriptionId}.`, { subscriptionId });
 
 		const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
-		if (!customerId) throw new Error(`Missing customer ID in subscription ${subscriptionId} (#2).`);
+		if (!customerId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing customer ID in subscription ${subscriptionId}.`, { subscriptionId });
 
 		const stripeAddons = await this.stripeManager.addons.getStripeAddons();
-		if (!stripeAddons.length) throw new Error('Addons not found.');
+		if (!stripeAddons.length) throw new AddonError(ErrorCode.AddonNotFound, 'Addons not found.', { subscriptionId });
 
 		const itemThatIsMainTier = subscription.items.data.find((item) => item.price.metadata._internal_id === subscription.metadata.tierId);
-		if (!itemThatIsMainTier) throw new Error(`Main tier not found for subscription ${subscriptionId} (#2).`);
+		if (!itemThatIsMainTier) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Main tier not found for subscription ${subscriptionId}.`, { subscriptionId, tierId: subscription.metadata.tierId });
 
 		const newSelectedAddons = stripeAddons.filter((addon) => newAddons.some((newAddon) => newAddon.addonId === addon.addonId));
-		if (newSelectedAddons.length !== newAddons.length) throw new Error('Invalid addon IDs provided.');
-		else if (newSelectedAddons.some((addon) => addon.priceCents === 0)) throw new Error('Addons with a price of 0 cannot be subscribed to.');
-		else if (newSelectedAddons.some((addon) => !addon.isActive)) throw new Error('Addons must be active to be subscribed to.');
+		if (newSelectedAddons.length !== newAddons.length) throw new AddonError(ErrorCode.AddonNotFound, 'Invalid addon IDs provided.', { subscriptionId });
+		else if (newSelectedAddons.some((addon) => !addon.isActive)) throw new AddonError(ErrorCode.AddonInactive, 'Addons must be active to be subscribed to.', { subscriptionId });
 
 		const subscriptionType = subscription.metadata.isUserSub === 'true' ? 'user' : 'guild';
 		const isAnyAddonNotCorrectType = newSelectedAddons.some((addon) => addon.type !== subscriptionType);
-		if (isAnyAddonNotCorrectType) throw new Error(`${subscriptionType === 'user' ? 'User' : 'Guild'} subscriptions cannot have addons for the other type.`);
+		if (isAnyAddonNotCorrectType) throw new AddonError(ErrorCode.AddonTypeMismatch, `${subscriptionType === 'user' ? 'User' : 'Guild'} subscriptions cannot have addons for the other type.`, { subscriptionId });
 
 		const currentAddonItems = subscription.items.data.filter((item) => item.price.metadata._internal_id !== subscription.metadata.tierId);
 		const isUnchanged = currentAddonItems.length === newAddons.length && newAddons.every((newAddon) => {
 			const currentAddonItem = currentAddonItems.find((item) => item.price.metadata._internal_id === newAddon.addonId);
-			return currentAddonItem && currentAddonItem.quantity === newAddon.quantity;
+			return currentAddonItem && (currentAddonItem.price.recurring?.usage_type === 'metered' || currentAddonItem.quantity === newAddon.quantity);
 		});
-		if (isUnchanged) return true;
+		if (isUnchanged) return null;
 
-		const newItems: Stripe.SubscriptionUpdateParams.Item[] = [{ id: itemThatIsMainTier.id, price: itemThatIsMainTier.price.id, quantity: 1 }];
-		const isAnnual = subscription.metadata.isAnnual === 'true';
+		const newItems: Stripe.SubscriptionUpdateParams.Item[] = [{ id: itemThatIsMainTier.id, price: itemThatIsMainTier.price.id, quantity: itemThatIsMainTier.quantity ?? 1 }];
+		const interval = getSubscriptionInterval(subscription);
 
 		for (const addon of newAddons) {
 			const addonData = stripeAddons.find((a) => a.addonId === addon.addonId);
-			if (!addonData) throw new Error(`Addon not found for ID ${addon.addonId} (#6).`);
+			if (!addonData) throw new AddonError(ErrorCode.AddonNotFound, `Addon not found for ID ${addon.addonId}.`, { addonId: addon.addonId });
 
 			const existingItem = subscription.items.data.find((item) => item.price.metadata._internal_id === addon.addonId);
 			if (existingItem) {
 				newItems.push({
 					id: existingItem.id,
 					price: existingItem.price.id,
-					quantity: addon.quantity,
+					quantity: addonData.metered ? undefined : addon.quantity,
 				});
 			} else {
+				const addonPriceId = addonData.priceIds[interval];
+				if (!addonPriceId) throw new AddonError(ErrorCode.InvalidInput, `Addon ${addon.addonId} cannot be billed ${interval}.`, { addonId: addon.addonId, subscriptionId });
+
 				newItems.push({
-					price: isAnnual ? addonData.yearlyPriceId : addonData.monthlyPriceId,
-					quantity: addon.quantity,
+					price: addonPriceId,
+					quantity: addonData.metered ? undefined : addon.quantity,
 				});
 			}
 		}
@@ -1641,18 +2216,104 @@ export class StripeSubscriptions {
 			newItems.push({ id: item.id, deleted: true });
 		}
 
-		this.manager.emit('debug', `Updating subscription ${subscriptionId} with addons: ${newItems.map((item) => item.price).join(', ')}.`);
+		return { subscription, customerId, params: { items: newItems } };
+	}
+
+	public async changeSeats(subscriptionId: string, seats: number, options?: Partial<ChargeOptions>): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.userId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing user ID in subscription ${subscriptionId}.`, { subscriptionId });
+		else if (!subscription.metadata.tierId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing tier ID in subscription ${subscriptionId}.`, { subscriptionId });
+
+		const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+		if (!customerId) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing customer ID in subscription ${subscriptionId}.`, { subscriptionId });
+
+		const itemThatIsMainTier = subscription.items.data.find((item) => item.price.metadata._internal_id === subscription.metadata.tierId);
+		if (!itemThatIsMainTier) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Main tier not found for subscription ${subscriptionId}.`, { subscriptionId, tierId: subscription.metadata.tierId });
+
+		this.getSeats(subscription.metadata.tierId, seats, subscriptionId);
+		if (itemThatIsMainTier.quantity === seats) return true;
+
+		this.manager.emit('debug', `Updating subscription ${subscriptionId} from ${itemThatIsMainTier.quantity} to ${seats} seats.`);
+
+		await this.updateAndCharge(subscription, customerId, {
+			items: [{ id: itemThatIsMainTier.id, price: itemThatIsMainTier.price.id, quantity: seats }],
+		}, options);
+
+		return true;
+	}
+
+	// Tiers that are not seat-based always have exactly one seat.
+	private getSeats(tierId: string, seats?: number, subscriptionId?: string): number {
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === tierId);
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${tierId}.`, { tierId, subscriptionId });
+		else if (!tierData.seats) {
+			if (seats !== undefined && seats !== 1) throw new TierError(ErrorCode.InvalidQuantity, `Tier ${tierId} is not seat-based.`, { tierId, subscriptionId });
+			return 1;
+		}
+
+		const min = tierData.seats.min ?? 1;
+		const resolved = seats ?? min;
+
+		if (!Number.isInteger(resolved) || resolved < min) throw new TierError(ErrorCode.InvalidQuantity, `Tier ${tierId} needs a whole number of seats, at least ${min}.`, { tierId, subscriptionId });
+		else if (tierData.seats.max !== undefined && resolved > tierData.seats.max) throw new TierError(ErrorCode.InvalidQuantity, `Tier ${tierId} allows at most ${tierData.seats.max} seats.`, { tierId, subscriptionId });
+
+		return resolved;
+	}
+
+	// Without a change this previews the next regular invoice on its own.
+	// Mirrors updateAndCharge(), only immediate changes prorate, the others leave nothing to pay right away.
+	private async previewChange(subscriptionId: string, change: PlannedChange | null, options?: Partial<ChargeOptions>): Promise<ChangePreview> {
+		const prorate = (options?.chargeType || 'immediate') === 'immediate';
+
+		const invoice = await this.stripe.invoices.createPreview({
+			subscription: subscriptionId,
+			subscription_details: change ? {
+				items: change.params.items,
+				proration_behavior: prorate ? 'create_prorations' : 'none',
+				proration_date: prorate ? Math.floor(Date.now() / 1000) : undefined,
+			} : undefined,
+		});
+
+		const lines: ChangePreviewLine[] = invoice.lines.data.map((line) => ({
+			description: line.description ?? '',
+			amountCents: line.amount,
+			quantity: line.quantity ?? 1,
+			isProration: Boolean(line.parent?.subscription_item_details?.proration || line.parent?.invoice_item_details?.proration),
+		}));
+
+		const prorationCents = lines.filter((line) => line.isProration).reduce((total, line) => total + line.amountCents, 0);
+
+		return {
+			currency: invoice.currency,
+			lines,
+			prorationCents,
+			amountDueNowCents: prorate ? Math.max(0, prorationCents) : 0,
+			nextRenewalCents: lines.filter((line) => !line.isProration).reduce((total, line) => total + line.amountCents, 0),
+		};
+	}
+
+	// Applies item changes and charges (or credits) the difference the way the caller asked for.
+	private async updateAndCharge(subscription: Stripe.Subscription, customerId: string, params: Stripe.SubscriptionUpdateParams, options?: Partial<ChargeOptions>): Promise<void> {
+		const subscriptionId = subscription.id;
 
 		const chargeType = options?.chargeType || 'immediate';
-		let proration_behavior: 'create_prorations' | 'none';
+		if (chargeType === 'endOfPeriod') return this.scheduleChange(subscription, params);
 
-		if (chargeType === 'immediate') proration_behavior = 'create_prorations';
-		else if (chargeType === 'endOfPeriod') proration_behavior = 'none';
-		else proration_behavior = 'none';
+		const proration_behavior = chargeType === 'immediate' ? 'create_prorations' : 'none';
+		const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+
+		// A pending end-of-period change would overwrite this one once its phase starts.
+		if (scheduleId) {
+			this.manager.emit('debug', `Releasing schedule ${scheduleId} of subscription ${subscriptionId}, its pending change is replaced.`);
+			await this.stripe.subscriptionSchedules.release(scheduleId);
+		}
+
+		this.manager.emit('debug', `Updating subscription ${subscriptionId} with proration behavior ${proration_behavior}.`);
 
 		await this.stripe.subscriptions.update(subscriptionId, {
+			...params,
 			proration_behavior,
-			items: newItems,
 		});
 
 		if (chargeType === 'immediate') {
@@ -1664,7 +2325,7 @@ export class StripeSubscriptions {
 				collection_method: 'charge_automatically',
 			});
 
-			if (!invoice.id) throw new Error(`Failed to create invoice for subscription ${subscriptionId} (#3).`);
+			if (!invoice.id) throw new SubscriptionError(ErrorCode.InvoiceFailed, `Failed to create invoice for subscription ${subscriptionId}.`, { subscriptionId });
 			const finalizedInvoice = await this.stripe.invoices.finalizeInvoice(invoice.id);
 
 			if (finalizedInvoice.total < 0) {
@@ -1685,20 +2346,871 @@ export class StripeSubscriptions {
 				days_until_due: options?.dueDays || this.manager.config.options?.stripe?.defaultDueDays || 7,
 			});
 
-			if (!invoice.id) throw new Error(`Failed to create invoice for subscription ${subscriptionId} (#4).`);
+			if (!invoice.id) throw new SubscriptionError(ErrorCode.InvoiceFailed, `Failed to create invoice for subscription ${subscriptionId}.`, { subscriptionId });
 			await this.stripe.invoices.finalizeInvoice(invoice.id);
 
 			this.manager.emit('debug', `Subscription ${subscriptionId} has a total of ${invoice.total}, and an invoice was sent to the user.`);
 		}
 
+	}
+
+	// End-of-period changes run as the next phase of a schedule, so nothing the user paid for changes before the period ends.
+	// Only one change can be pending, it has to be cancelled with cancelPendingChange() before another is scheduled.
+	private async scheduleChange(subscription: Stripe.Subscription, params: Stripe.SubscriptionUpdateParams): Promise<void> {
+		const subscriptionId = subscription.id;
+
+		const currentItem = subscription.items.data[0];
+		if (!currentItem) throw new SubscriptionError(ErrorCode.InvalidMetadata, `Missing items in subscription ${subscriptionId}.`, { subscriptionId });
+
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === subscription.metadata.tierId);
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${subscription.metadata.tierId}.`, { tierId: subscription.metadata.tierId, subscriptionId });
+
+		const existingScheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+		const existingSchedule = existingScheduleId ? await this.stripe.subscriptionSchedules.retrieve(existingScheduleId) : await this.stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+
+		const pendingPhase = existingSchedule.phases.find((phase) => phase.start_date > Math.floor(Date.now() / 1000));
+		if (pendingPhase) throw new SubscriptionError(ErrorCode.ChangeAlreadyScheduled, `Subscription ${subscriptionId} already has a change scheduled for ${new Date(pendingPhase.start_date * 1000).toISOString()}, cancel it before scheduling another.`, { subscriptionId });
+
+		const currentItems: { id: string | null; price: string; quantity?: number; }[] = subscription.items.data.map((item) => ({
+			id: item.id,
+			price: item.price.id,
+			quantity: item.price.recurring?.usage_type === 'metered' ? undefined : item.quantity,
+		}));
+
+		const nextItems = [...currentItems];
+		for (const change of params.items ?? []) {
+			const existing = change.id ? nextItems.find((item) => item.id === change.id) : null;
+
+			if (!existing) nextItems.push({ id: null, price: change.price ?? '', quantity: change.quantity });
+			else if (change.deleted) nextItems.splice(nextItems.indexOf(existing), 1);
+			else nextItems[nextItems.indexOf(existing)] = { ...existing, price: change.price ?? existing.price, quantity: change.quantity ?? existing.quantity };
+		}
+
+		this.manager.emit('debug', `Scheduling a change for subscription ${subscriptionId} at ${new Date(currentItem.current_period_end * 1000).toISOString()}.`);
+
+		const schedule = await this.stripe.subscriptionSchedules.update(existingSchedule.id, {
+			end_behavior: 'release',
+			phases: [
+				{
+					items: currentItems.map(({ price, quantity }) => ({ price, quantity })),
+					start_date: existingSchedule.current_phase?.start_date ?? currentItem.current_period_start,
+					end_date: currentItem.current_period_end,
+					metadata: subscription.metadata,
+					proration_behavior: 'none',
+				},
+				{
+					items: nextItems.map(({ price, quantity }) => ({ price, quantity })),
+					duration: IntervalRecurrence[getSubscriptionInterval(subscription)],
+					metadata: { ...subscription.metadata, ...(params.metadata || {}) },
+					proration_behavior: 'none',
+				},
+			],
+			expand: ['phases.items.price'],
+		});
+
+		const nextPhase = schedule.phases[1];
+		if (!nextPhase) throw new SubscriptionError(ErrorCode.RequestFailed, `Failed to schedule a change for subscription ${subscriptionId}.`, { subscriptionId });
+
+		const addons = await this.manager.stripeManager.addons.getAddonsFromItems(subscription.items.data) ?? [];
+
+		await this.manager.dispatch('subscriptionChangeScheduled', {
+			...this.stripeManager.internalBuildSubscriptionData(subscription, tierData, addons),
+
+			change: this.internalBuildPendingChange(subscription, schedule, nextPhase),
+
+			raw: { subscription, schedule },
+		});
+	}
+
+	public async getPendingChanges(subscriptionId: string): Promise<PendingChange[]> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+
+		const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+		if (!scheduleId) return [];
+
+		const schedule = await this.stripe.subscriptionSchedules.retrieve(scheduleId, { expand: ['phases.items.price'] });
+		const now = Math.floor(Date.now() / 1000);
+
+		return schedule.phases.filter((phase) => phase.start_date > now).map((phase) => this.internalBuildPendingChange(subscription, schedule, phase));
+	}
+
+	public async cancelPendingChange(subscriptionId: string): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+
+		const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+		if (!scheduleId) return true;
+
+		this.manager.emit('debug', `Releasing schedule ${scheduleId} to cancel the pending change of subscription ${subscriptionId}.`);
+		await this.stripe.subscriptionSchedules.release(scheduleId);
+
 		return true;
 	}
 
+	// Phase items need their prices expanded, unexpanded ones are skipped.
+	public internalBuildPendingChange(subscription: Stripe.Subscription, schedule: Stripe.SubscriptionSchedule, phase: Stripe.SubscriptionSchedule.Phase): PendingChange {
+		const tierId = phase.metadata?.tierId ?? subscription.metadata.tierId ?? '';
+		const items = phase.items.map((item) => ({ price: typeof item.price === 'object' && !item.price.deleted ? item.price : null, quantity: item.quantity ?? 1 }));
+
+		return {
+			scheduleId: schedule.id,
+			effectiveAt: new Date(phase.start_date * 1000),
+
+			tierId,
+			seats: items.find((item) => item.price?.metadata._internal_id === tierId)?.quantity ?? 1,
+			addons: items
+				.filter((item) => item.price?.metadata._internal_id && item.price.metadata._internal_id !== tierId)
+				.map((item) => ({ addonId: item.price?.metadata._internal_id ?? '', quantity: item.quantity })),
+		};
+	}
+
+	public async migrateSubscribers(options: MigrateSubscribersOptions): Promise<MigrationProgress> {
+		const versions = await this.stripeManager.tiers.getPriceVersions(options.tierId);
+		const to = options.to ?? Math.max(0, ...versions.filter((version) => version.isCurrent).map((version) => version.version));
+
+		const fromPrices = versions.filter((version) => version.version === options.from);
+		const toPrices = versions.filter((version) => version.version === to);
+
+		if (!fromPrices.length) throw new TierError(ErrorCode.InvalidInput, `Tier ${options.tierId} has no price version ${options.from}.`, { tierId: options.tierId });
+		else if (!toPrices.length) throw new TierError(ErrorCode.InvalidInput, `Tier ${options.tierId} has no price version ${to}.`, { tierId: options.tierId });
+		else if (options.from === to) throw new TierError(ErrorCode.InvalidInput, `Subscribers of tier ${options.tierId} are already on price version ${to}.`, { tierId: options.tierId });
+
+		const subscriptions: Stripe.Subscription[] = [];
+		for (const price of fromPrices) subscriptions.push(...await this.internalGetAllSubscriptions({ price: price.priceId }));
+
+		const progress: MigrationProgress = { tierId: options.tierId, from: options.from, to, total: subscriptions.length, migrated: 0, skipped: 0, failed: 0 };
+		const batchSize = Math.max(1, options.batchSize ?? 25);
+
+		for (let i = 0; i < subscriptions.length; i += batchSize) {
+			const batch = subscriptions.slice(i, i + batchSize);
+			const results = await Promise.allSettled(batch.map((subscription) => this.migrateSubscription(subscription, fromPrices, toPrices, options)));
+
+			for (const result of results) {
+				if (result.status === 'fulfilled') {
+					if (result.value) progress.migrated++;
+					else progress.skipped++;
+				} else {
+					progress.failed++;
+					this.manager.emit('debug', `Failed to migrate a subscription of tier ${options.tierId}: ${stringifyError(result.reason)}`);
+				}
+			}
+
+			this.manager.emit('migrationProgress', { ...progress });
+		}
+
+		return progress;
+	}
+
+	private async migrateSubscription(subscription: Stripe.Subscription, fromPrices: PriceVersion[], toPrices: PriceVersion[], options: MigrateSubscribersOptions): Promise<boolean> {
+		if (subscription.metadata.grandfathered === 'true' && !options.includeGrandfathered) return false;
+
+		const item = subscription.items.data.find((item) => fromPrices.some((price) => price.priceId === item.price.id));
+		const interval = fromPrices.find((price) => price.priceId === item?.price.id)?.interval;
+
+		const target = toPrices.find((price) => price.interval === interval);
+		if (!item || !target) return false;
+
+		if (options.effective === 'now') {
+			const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+
+			// The pending phase of a schedule would put the old price back once it starts.
+			if (scheduleId) {
+				this.manager.emit('debug', `Releasing schedule ${scheduleId} of subscription ${subscription.id}, its pending change is replaced by the migration.`);
+				await this.stripe.subscriptionSchedules.release(scheduleId);
+			}
+
+			await this.stripe.subscriptions.update(subscription.id, {
+				items: [{ id: item.id, price: target.priceId }],
+				proration_behavior: options.prorate ? 'create_prorations' : 'none',
+				billing_cycle_anchor: 'now',
+			});
+		} else if (subscription.schedule) {
+			// Scheduling the new price would replace the change that is already pending.
+			this.manager.emit('debug', `Subscription ${subscription.id} already has a pending change, skipping its migration.`);
+			return false;
+		} else {
+			await this.scheduleChange(subscription, { items: [{ id: item.id, price: target.priceId }] });
+		}
+
+		return true;
+	}
+
+	// Grandfathered subscriptions are left alone by migrateSubscribers() unless explicitly included.
+	public async setGrandfathered(subscriptionId: string, grandfathered = true): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+
+		await this.stripe.subscriptions.update(subscriptionId, { metadata: { grandfathered: grandfathered ? 'true' : '' } });
+		return true;
+	}
+
+	public async applyDiscount(subscriptionId: string, discount: DiscountInput): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+
+		const productIds = subscription.items.data.map((item) => typeof item.price.product === 'string' ? item.price.product : item.price.product.id);
+
+		if ('promoCode' in discount) {
+			const promotionCode = await this.getPromotionCode(discount.promoCode, productIds, { subscriptionId });
+			await this.stripe.subscriptions.update(subscriptionId, { discounts: [{ promotion_code: promotionCode.id }] });
+		} else {
+			const coupon = await this.getCoupon(discount.couponId, productIds, { subscriptionId });
+			await this.stripe.subscriptions.update(subscriptionId, { discounts: [{ coupon: coupon.id }] });
+		}
+
+		return true;
+	}
+
+	public async removeDiscount(subscriptionId: string): Promise<boolean> {
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId });
+
+		await this.stripe.subscriptions.update(subscriptionId, { discounts: '' });
+		return true;
+	}
+
+	private async getPromotionCode(code: string, productIds: string[], context: ErrorContext): Promise<Stripe.PromotionCode> {
+		const promotionCodes = await this.stripe.promotionCodes.list({ code, active: true, limit: 1 });
+
+		const promotionCode = promotionCodes.data[0];
+		if (!promotionCode) throw new CouponError(ErrorCode.InvalidDiscount, `Promotion code ${code} does not exist or is no longer active.`, context);
+		else if (promotionCode.expires_at && promotionCode.expires_at * 1000 < Date.now()) throw new CouponError(ErrorCode.InvalidDiscount, `Promotion code ${code} has expired.`, context);
+		else if (promotionCode.max_redemptions && promotionCode.times_redeemed >= promotionCode.max_redemptions) throw new CouponError(ErrorCode.InvalidDiscount, `Promotion code ${code} has been used up.`, context);
+
+		const { coupon } = promotionCode.promotion;
+		const couponId = typeof coupon === 'string' ? coupon : coupon?.id;
+		if (!couponId) throw new CouponError(ErrorCode.InvalidDiscount, `Promotion code ${code} has no coupon.`, context);
+
+		await this.getCoupon(couponId, productIds, context);
+		return promotionCode;
+	}
+
+	// Restricted coupons must apply to at least one of the given products.
+	// Coupons replaced by a sync (because their terms changed) resolve to the version that replaced them.
+	private async getCoupon(couponId: string, productIds: string[], context: ErrorContext): Promise<Stripe.Coupon> {
+		let coupon = await this.stripe.coupons.retrieve(couponId, { expand: ['applies_to'] }).catch(() => null);
+		while (coupon?.metadata?._internal_replaced_by) coupon = await this.stripe.coupons.retrieve(coupon.metadata._internal_replaced_by, { expand: ['applies_to'] }).catch(() => null);
+
+		if (!coupon) throw new CouponError(ErrorCode.InvalidDiscount, `Coupon not found for ID ${couponId}.`, { ...context, couponId });
+		else if (!coupon.valid) throw new CouponError(ErrorCode.InvalidDiscount, `Coupon ${couponId} can no longer be redeemed.`, { ...context, couponId });
+
+		const restrictedTo = coupon.applies_to?.products ?? [];
+		if (restrictedTo.length && !productIds.some((productId) => restrictedTo.includes(productId))) throw new CouponError(ErrorCode.InvalidDiscount, `Coupon ${couponId} does not apply to this tier or its addons.`, { ...context, couponId });
+
+		return coupon;
+	}
+
+	public async createGiftCheckoutSession(data: GiftCreateInputData): Promise<Stripe.Checkout.Session> {
+		const stripeTiers = await this.stripeManager.tiers.getStripeTiers();
+		if (!stripeTiers) throw new TierError(ErrorCode.RequestFailed, 'Failed to get tiers.');
+
+		const tierData = stripeTiers.find((tier) => tier.tierId === data.tierId);
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${data.tierId}.`, { tierId: data.tierId });
+		else if (!tierData.isActive) throw new TierError(ErrorCode.TierInactive, 'Tier is not active.', { tierId: data.tierId });
+		else if (!Number.isInteger(data.months) || data.months < 1) throw new GiftError(ErrorCode.InvalidInput, 'Gifts must be for a whole number of months, at least 1.', { tierId: data.tierId });
+
+		const customer = await this.stripeManager.customers.getOrCreateCustomer(data.customer);
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Failed to create or get customer.', { userId: data.customer.userId });
+		else if (!customer.metadata.userId) throw new CustomerError(ErrorCode.InvalidMetadata, 'Missing user ID in customer.', { customerId: customer.id });
+
+		const tierConfig = this.manager.config.premiumTiers.find((tier) => tier.tierId === data.tierId) ?? tierData;
+		const monthlyPrices = getIntervalPrices(tierConfig, 'monthly');
+		const currency = data.currency?.toLowerCase() ?? (customer.currency && customer.currency in monthlyPrices ? customer.currency : (tierConfig.currency ?? 'usd').toLowerCase());
+
+		const monthlyPrice = monthlyPrices[currency];
+		if (monthlyPrice === undefined) throw new GiftError(ErrorCode.InvalidInput, `Currency ${currency} is not available for tier ${data.tierId}.`, { tierId: data.tierId, customerId: customer.id });
+		else if (monthlyPrice <= 0) throw new TierError(ErrorCode.InvalidPrice, 'Tiers with a price of 0 cannot be gifted.', { tierId: data.tierId });
+
+		const joinIfExists = (s1: string | null, s2: string) => s1 ? `${s1}${s2}` : `https://example.com/checkout${s2}`;
+		const metadata = {
+			...(data.metadata ?? {}),
+			tierId: tierData.tierId,
+			userId: customer.metadata.userId,
+			months: data.months.toString(),
+			isGift: 'true',
+		};
+
+		const session = await this.stripe.checkout.sessions.create({
+			customer: customer.id,
+			mode: 'payment',
+			currency,
+			client_reference_id: customer.metadata.userId,
+			allow_promotion_codes: this.manager.config.options?.stripe?.allowPromotionCodes ?? true,
+			line_items: [{
+				quantity: 1,
+				price_data: {
+					currency,
+					product: tierData.stripeProductId,
+					unit_amount: monthlyPrice * data.months,
+					tax_behavior: this.manager.config.options?.stripe?.includeTaxInPrice ? 'inclusive' : 'exclusive',
+				},
+			}],
+			success_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=true&gift=true&userId=${customer.metadata.userId}`),
+			cancel_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=false&gift=true&userId=${customer.metadata.userId}`),
+			payment_intent_data: {
+				description: `Gift of ${data.months} month${data.months === 1 ? '' : 's'} of ${tierData.name}.`,
+				metadata,
+			},
+			metadata,
+		});
+
+		return session;
+	}
+
+	// Called once the gift checkout is paid, retried webhooks get the gift that was already created for the session.
+	// The session is locked while the gift is created, so deliveries that overlap do not mint a second code.
+	public async internalCreateGift(session: Stripe.Checkout.Session): Promise<Gift> {
+		return withLock(this.manager.storage, `giftSession:${session.id}`, async () => {
+			const existingCode = await this.manager.storage.get<string>(`giftSession:${session.id}`);
+			const existing = existingCode ? await this.getGift(existingCode) : null;
+			if (existing) return existing;
+
+			const purchasedAt = new Date();
+			const gift: Gift = {
+				code: generateGiftCode(),
+				tierId: session.metadata?.tierId ?? '',
+				months: Number(session.metadata?.months),
+
+				purchasedBy: session.metadata?.userId ?? '',
+				purchasedAt,
+				redeemBy: new Date(purchasedAt.getTime() + (this.manager.config.options?.stripe?.giftRedeemDays ?? 365) * 24 * 60 * 60 * 1000),
+
+				redeemedFor: null,
+				redeemedAt: null,
+				endsAt: null,
+
+				checkoutSessionId: session.id,
+			};
+
+			await this.saveGift(gift);
+			await this.manager.storage.set(`giftSession:${session.id}`, gift.code);
+
+			const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+			if (paymentIntentId) await this.stripe.paymentIntents.update(paymentIntentId, { metadata: { giftCode: gift.code } }).catch((error) => this.manager.emit('debug', `Failed to store gift code on payment intent ${paymentIntentId}: ${stringifyError(error)}`));
+
+			return gift;
+		});
+	}
+
+	public async getGift(code: string): Promise<Gift | null> {
+		const stored = await this.manager.storage.get<StoredGift>(`gift:${code.trim().toUpperCase()}`);
+		if (!stored) return null;
+
+		return {
+			...stored,
+			purchasedAt: new Date(stored.purchasedAt),
+			redeemBy: new Date(stored.redeemBy),
+			redeemedAt: stored.redeemedAt ? new Date(stored.redeemedAt) : null,
+			endsAt: stored.endsAt ? new Date(stored.endsAt) : null,
+		};
+	}
+
+	public async getActiveGifts(): Promise<Gift[]> {
+		const codes = await this.manager.storage.get<string[]>('activeGifts') ?? [];
+		const gifts = await Promise.all(codes.map((code) => this.getGift(code)));
+
+		return gifts.filter((gift): gift is Gift => Boolean(gift));
+	}
+
+	// Grants the tier for the paid number of months, the recipient does not need a Stripe customer.
+	// Listeners run under the gift's lock, when one fails the gift is put back so the code can be redeemed again.
+	public async redeemGift(code: string, target: PremiumTarget): Promise<Gift> {
+		return withLock(this.manager.storage, `gift:${code.trim().toUpperCase()}`, async () => {
+			const { gift, redeemed, tierData } = await this.internalRedeemGift(code, target);
+			const eventData = this.internalBuildGiftData(redeemed, tierData);
+
+			try {
+				await this.manager.dispatch('subscriptionCreate', eventData);
+				await this.manager.dispatch('giftRedeemed', eventData);
+			} catch (error) {
+				this.manager.emit('debug', `Listener failed for redeemed gift ${gift.code}, putting it back: ${stringifyError(error)}`);
+
+				await this.saveGift(gift);
+				await this.updateActiveGifts((codes) => codes.filter((active) => active !== gift.code));
+				this.manager.entitlements.remove(gift.code);
+
+				throw error;
+			}
+
+			return redeemed;
+		});
+	}
+
+	// Runs under the gift's lock, so concurrent redemptions of one code see each other's redeemedAt.
+	private async internalRedeemGift(code: string, target: PremiumTarget): Promise<{ gift: Gift; redeemed: Gift; tierData: PremiumTier; }> {
+		const gift = await this.getGift(code);
+		if (!gift) throw new GiftError(ErrorCode.GiftNotFound, `Gift not found for code ${code}.`, { giftCode: code });
+		else if (gift.redeemedAt) throw new GiftError(ErrorCode.GiftAlreadyRedeemed, `Gift ${gift.code} has already been redeemed.`, { giftCode: gift.code, tierId: gift.tierId });
+		else if (gift.redeemBy.getTime() <= Date.now()) throw new GiftError(ErrorCode.GiftExpired, `Gift ${gift.code} has expired.`, { giftCode: gift.code, tierId: gift.tierId });
+
+		const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === gift.tierId);
+		if (!tierData) throw new TierError(ErrorCode.TierNotFound, `Tier not found for ID ${gift.tierId}.`, { tierId: gift.tierId, giftCode: gift.code });
+		else if (tierData.type === 'guild' && !('guildId' in target)) throw new TierError(ErrorCode.TierTypeMismatch, `Gift ${gift.code} is for a guild tier and must be redeemed for a guild.`, { tierId: gift.tierId, giftCode: gift.code });
+		else if (tierData.type === 'user' && !('userId' in target)) throw new TierError(ErrorCode.TierTypeMismatch, `Gift ${gift.code} is for a user tier and must be redeemed for a user.`, { tierId: gift.tierId, giftCode: gift.code });
+
+		if ('guildId' in target && this.manager.entitlements.isGuildPremium(target.guildId)) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'Guild already has premium.', { tierId: gift.tierId, guildId: target.guildId, giftCode: gift.code });
+		else if ('userId' in target && this.manager.entitlements.isUserPremium(target.userId)) throw new SubscriptionError(ErrorCode.AlreadySubscribed, 'User already has premium.', { tierId: gift.tierId, userId: target.userId, giftCode: gift.code });
+
+		const redeemedAt = new Date();
+		const endsAt = new Date(redeemedAt);
+		endsAt.setMonth(endsAt.getMonth() + gift.months);
+
+		const redeemed: Gift = {
+			...gift,
+			redeemedFor: 'guildId' in target ? target.guildId : target.userId,
+			redeemedAt,
+			endsAt,
+		};
+
+		await this.saveGift(redeemed);
+		await this.updateActiveGifts((codes) => [...codes, redeemed.code]);
+
+		return { gift, redeemed, tierData };
+	}
+
+	// Ends gifted premium that ran out, the code stays active until every listener handled the delete.
+	public async expireGifts(): Promise<number> {
+		let expired = 0;
+
+		for (const gift of await this.getActiveGifts()) {
+			if (!gift.endsAt || gift.endsAt.getTime() > Date.now()) continue;
+
+			const tierData = this.manager.config.premiumTiers.find((tier) => tier.tierId === gift.tierId);
+			if (tierData) await this.manager.dispatch('subscriptionDelete', this.internalBuildGiftData(gift, tierData));
+			else this.manager.emit('debug', `Tier ${gift.tierId} of expired gift ${gift.code} no longer exists, skipping subscriptionDelete.`);
+
+			await this.updateActiveGifts((codes) => codes.filter((code) => code !== gift.code));
+			expired++;
+		}
+
+		return expired;
+	}
+
+	private async updateActiveGifts(update: (codes: string[]) => string[]): Promise<void> {
+		await withLock(this.manager.storage, 'activeGifts', async () => {
+			await this.manager.storage.set('activeGifts', update(await this.manager.storage.get<string[]>('activeGifts') ?? []));
+		});
+	}
+
+	public internalBuildGiftData(gift: Gift, tierData: PremiumTier): GiftSourcedData {
+		return {
+			type: tierData.type,
+			source: 'gift',
+			tier: tierData,
+
+			interval: 'monthly',
+			seats: 1,
+			addons: [],
+			featureSet: this.manager.resolveFeatureSet(tierData),
+			trial: null,
+			pause: null,
+
+			userId: tierData.type === 'user' ? gift.redeemedFor ?? '' : gift.purchasedBy,
+			guildId: tierData.type === 'guild' ? gift.redeemedFor : null,
+
+			raw: { gift },
+		};
+	}
+
+	private async saveGift(gift: Gift): Promise<void> {
+		const stored: StoredGift = {
+			...gift,
+			purchasedAt: gift.purchasedAt.getTime(),
+			redeemBy: gift.redeemBy.getTime(),
+			redeemedAt: gift.redeemedAt?.getTime() ?? null,
+			endsAt: gift.endsAt?.getTime() ?? null,
+		};
+
+		await this.manager.storage.set(`gift:${gift.code}`, stored);
+	}
+
 	public getAccumulatedSubscriptionCents(subscriptionItems: Stripe.SubscriptionItem[]): number {
 		return subscriptionItems.reduce((acc, item) => acc + (item.price.unit_amount || 0) * (item.quantity || 1), 0) || 0;
 	}
 }
 
+export class StripePurchases {
+	constructor (private readonly manager: PremiumManager, private readonly stripe: Stripe, private readonly stripeManager: StripeManager) { }
+
+	public async getStripeProducts(): Promise<StripeOneTimeProduct[]> {
+		const allProducts = await this.stripeManager.internalGetAllProducts();
+		const allPrices = await this.stripeManager.internalGetAllPrices();
+
+		const products: StripeOneTimeProduct[] = [];
+
+		for (const product of allProducts) {
+			const productId = product.metadata._internal_id;
+			if (product.metadata._internal_which !== 'product' || !productId) continue;
+
+			const productData = this.manager.config.products?.find((p) => p.productId === productId);
+			if (!productData || products.some((p) => p.productId === productId)) continue;
+
+			const price = allPrices.filter((p) => p.product === product.id && !p.recurring).sort((a, b) => Number(b.active) - Number(a.active))[0];
+			if (!price) continue;
+
+			products.push({
+				...productData,
+				name: product.name,
+				isActive: product.active,
+				priceCents: price.unit_amount ?? 0,
+				stripeProductId: product.id,
+				priceId: price.id,
+			});
+		}
+
+		return products;
+	}
+
+	public async createCheckoutSession(data: PurchaseCreateInputData): Promise<Stripe.Checkout.Session> {
+		const stripeProducts = await this.getStripeProducts();
+		const quantity = data.quantity ?? 1;
+
+		const productData = stripeProducts.find((product) => product.productId === data.productId);
+		if (!productData) throw new PurchaseError(ErrorCode.ProductNotFound, `Product not found for ID ${data.productId}.`, { oneTimeProductId: data.productId });
+		else if (!productData.isActive) throw new PurchaseError(ErrorCode.ProductInactive, 'Product is not active.', { oneTimeProductId: data.productId });
+		else if (productData.type === 'guild' && !data.guildId) throw new PurchaseError(ErrorCode.InvalidInput, 'Guild products must be bought for guilds.', { oneTimeProductId: data.productId });
+		else if (productData.type === 'user' && data.guildId) throw new PurchaseError(ErrorCode.InvalidInput, 'User products cannot be bought for guilds.', { oneTimeProductId: data.productId, guildId: data.guildId });
+		else if (!Number.isInteger(quantity) || quantity < 1) throw new PurchaseError(ErrorCode.InvalidQuantity, 'Quantity must be a whole number, at least 1.', { oneTimeProductId: data.productId });
+		else if (productData.kind !== 'consumable' && quantity !== 1) throw new PurchaseError(ErrorCode.InvalidQuantity, 'Only consumable products can be bought more than once at a time.', { oneTimeProductId: data.productId });
+
+		const customer = await this.stripeManager.customers.getOrCreateCustomer(data.customer);
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Failed to create or get customer.', { userId: data.customer.userId });
+		else if (!customer.metadata.userId) throw new CustomerError(ErrorCode.InvalidMetadata, 'Missing user ID in customer.', { customerId: customer.id });
+
+		const target: PremiumTarget = data.guildId ? { guildId: data.guildId } : { userId: customer.metadata.userId };
+		if (productData.kind !== 'consumable' && await this.hasPurchased(productData.productId, target)) throw new PurchaseError(ErrorCode.AlreadyPurchased, `Product ${productData.productId} was already bought for this ${productData.type}.`, { oneTimeProductId: data.productId, userId: customer.metadata.userId, guildId: data.guildId });
+
+		const prices = getCurrencyPrices(this.manager.config.products?.find((product) => product.productId === data.productId) ?? productData);
+		if (data.currency && !(data.currency.toLowerCase() in prices)) throw new PurchaseError(ErrorCode.InvalidInput, `Currency ${data.currency.toLowerCase()} is not available for product ${data.productId}.`, { oneTimeProductId: data.productId, customerId: customer.id });
+
+		const currency = data.currency?.toLowerCase() ?? (customer.currency && customer.currency in prices ? customer.currency : undefined);
+		const joinIfExists = (s1: string | null, s2: string) => s1 ? `${s1}${s2}` : `https://example.com/checkout${s2}`;
+		const query = `productId=${productData.productId}&userId=${customer.metadata.userId}${data.guildId ? `&guildId=${data.guildId}` : ''}`;
+
+		const metadata: Record<string, string> = {
+			...(data.metadata ?? {}),
+			productId: productData.productId,
+			userId: customer.metadata.userId,
+			quantity: quantity.toString(),
+			isPurchase: 'true',
+		};
+
+		if (data.guildId) metadata.guildId = data.guildId;
+
+		const session = await this.stripe.checkout.sessions.create({
+			customer: customer.id,
+			mode: 'payment',
+			currency,
+			client_reference_id: customer.metadata.userId,
+			allow_promotion_codes: this.manager.config.options?.stripe?.allowPromotionCodes ?? true,
+			line_items: [{
+				price: productData.priceId,
+				quantity,
+			}],
+			success_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=true&${query}`),
+			cancel_url: joinIfExists(this.manager.config.options?.stripe?.redirectUrl || null, `?success=false&${query}`),
+			payment_intent_data: {
+				description: data.guildId ? `${productData.name} for ${data.guildName || `guild ${data.guildId}`}.` : `${productData.name}.`,
+				metadata,
+			},
+			metadata,
+		});
+
+		return session;
+	}
+
+	public async getPurchase(paymentIntentId: string): Promise<Purchase | null> {
+		const stored = await this.manager.storage.get<StoredPurchase>(`purchase:${paymentIntentId}`);
+		if (!stored) return null;
+
+		return {
+			...stored,
+			purchasedAt: new Date(stored.purchasedAt),
+			refundedAt: stored.refundedAt ? new Date(stored.refundedAt) : null,
+		};
+	}
+
+	// Includes refunded purchases, check refundedAt.
+	public async getPurchases(target: PremiumTarget): Promise<Purchase[]> {
+		const paymentIntentIds = await this.manager.storage.get<string[]>(this.getTargetKey(target)) ?? [];
+		const purchases = await Promise.all(paymentIntentIds.map((paymentIntentId) => this.getPurchase(paymentIntentId)));
+
+		return purchases.filter((purchase): purchase is Purchase => Boolean(purchase));
+	}
+
+	public async hasPurchased(productId: string, target: PremiumTarget): Promise<boolean> {
+		const purchases = await this.getPurchases(target);
+		return purchases.some((purchase) => purchase.productId === productId && !purchase.refundedAt);
+	}
+
+	public async getLifetimePurchases(): Promise<Purchase[]> {
+		const paymentIntentIds = await this.manager.storage.get<string[]>('lifetimePurchases') ?? [];
+		const purchases = await Promise.all(paymentIntentIds.map((paymentIntentId) => this.getPurchase(paymentIntentId)));
+
+		return purchases.filter((purchase): purchase is Purchase => Boolean(purchase && !purchase.refundedAt));
+	}
+
+	// Null when the payment intent was already recorded.
+	public async internalRecordPurchase(paymentIntent: Stripe.PaymentIntent, productData: OneTimeProduct): Promise<Purchase | null> {
+		const guildId = productData.type === 'guild' ? paymentIntent.metadata.guildId ?? null : null;
+		const purchase: Purchase = {
+			paymentIntentId: paymentIntent.id,
+			productId: productData.productId,
+			kind: productData.kind,
+
+			type: productData.type,
+			userId: paymentIntent.metadata.userId ?? '',
+			guildId,
+
+			quantity: Number(paymentIntent.metadata.quantity) || 1,
+			amountCents: paymentIntent.amount_received || paymentIntent.amount,
+			currency: paymentIntent.currency,
+
+			purchasedAt: new Date(paymentIntent.created * 1000),
+			refundedAt: null,
+		};
+
+		if (!await this.savePurchase(purchase, true)) return null;
+		await this.updateIndex(this.getTargetKey(guildId ? { guildId } : { userId: purchase.userId }), purchase.paymentIntentId, true);
+		if (purchase.kind === 'lifetime') await this.updateIndex('lifetimePurchases', purchase.paymentIntentId, true);
+
+		return purchase;
+	}
+
+	public async internalRefundPurchase(purchase: Purchase): Promise<Purchase> {
+		const refunded: Purchase = { ...purchase, refundedAt: new Date() };
+
+		await this.savePurchase(refunded);
+		if (refunded.kind === 'lifetime') await this.updateIndex('lifetimePurchases', refunded.paymentIntentId, false);
+
+		return refunded;
+	}
+
+	public async internalDeletePurchase(purchase: Purchase): Promise<void> {
+		await this.manager.storage.delete(`purchase:${purchase.paymentIntentId}`);
+		await this.updateIndex(this.getTargetKey(purchase.guildId ? { guildId: purchase.guildId } : { userId: purchase.userId }), purchase.paymentIntentId, false);
+		await this.updateIndex('lifetimePurchases', purchase.paymentIntentId, false);
+	}
+
+	public internalBuildPurchaseData(purchase: Purchase, tierData: PremiumTier): PurchaseSourcedData {
+		return {
+			type: tierData.type,
+			source: 'purchase',
+			tier: tierData,
+
+			interval: 'monthly',
+			seats: 1,
+			addons: [],
+			featureSet: this.manager.resolveFeatureSet(tierData),
+			trial: null,
+			pause: null,
+
+			userId: purchase.userId,
+			guildId: tierData.type === 'guild' ? purchase.guildId : null,
+
+			raw: { purchase },
+		};
+	}
+
+	// With onlyIfNew the purchase is only saved when it was not recorded yet, returning whether it was.
+	private async savePurchase(purchase: Purchase, onlyIfNew = false): Promise<boolean> {
+		const stored: StoredPurchase = {
+			...purchase,
+			purchasedAt: purchase.purchasedAt.getTime(),
+			refundedAt: purchase.refundedAt?.getTime() ?? null,
+		};
+
+		if (onlyIfNew) return setIfAbsent(this.manager.storage, `purchase:${purchase.paymentIntentId}`, stored);
+
+		await this.manager.storage.set(`purchase:${purchase.paymentIntentId}`, stored);
+		return true;
+	}
+
+	private async updateIndex(key: string, paymentIntentId: string, add: boolean): Promise<void> {
+		await withLock(this.manager.storage, key, async () => {
+			const paymentIntentIds = (await this.manager.storage.get<string[]>(key) ?? []).filter((id) => id !== paymentIntentId);
+			await this.manager.storage.set(key, add ? [...paymentIntentIds, paymentIntentId] : paymentIntentIds);
+		});
+	}
+
+	private getTargetKey(target: PremiumTarget): string {
+		return 'guildId' in target ? `purchases:guild:${target.guildId}` : `purchases:user:${target.userId}`;
+	}
+}
+
+export class StripeUsage {
+	private pending: Map<string, UsageBatch> = new Map();
+	private failed: UsageBatch[] = [];
+
+	private customerIds: Map<string, string> = new Map(); // Subscription ID to customer ID.
+	private flushTimer: NodeJS.Timeout | null = null;
+	private retries = 0;
+
+	constructor (private readonly manager: PremiumManager, private readonly stripe: Stripe, private readonly stripeManager: StripeManager) { }
+
+	// Usage is batched in memory per customer, addon and minute, call stop() or PremiumManager.destroy() before shutting down.
+	// Reports with an idempotency key skip the batch and are sent right away, so a key is never marked for usage that could still be lost.
+	public async reportUsage(data: UsageReportData): Promise<void> {
+		const addonData = this.manager.config.addons.find((addon) => addon.addonId === data.addonId);
+		if (!addonData) throw new AddonError(ErrorCode.AddonNotFound, `Addon not found for ID ${data.addonId}.`, { addonId: data.addonId });
+		else if (!addonData.metered) throw new AddonError(ErrorCode.InvalidInput, `Addon ${data.addonId} is not metered.`, { addonId: data.addonId });
+		else if (!Number.isFinite(data.quantity) || data.quantity <= 0) throw new AddonError(ErrorCode.InvalidQuantity, 'Usage quantity must be greater than 0.', { addonId: data.addonId });
+
+		const eventName = getMeterEventName(addonData);
+		const timestamp = Math.floor((data.timestamp?.getTime() ?? Date.now()) / 1000);
+
+		if (data.idempotencyKey) {
+			const reportKey = `usageReport:${data.idempotencyKey}`;
+			if (!await setIfAbsent(this.manager.storage, reportKey, true, 1000 * 60 * 60 * 24)) return; // 24 hours
+
+			try {
+				const customerId = await this.getCustomerId(data);
+				await this.sendBatch({ customerId, eventName, quantity: data.quantity, timestamp, identifier: data.idempotencyKey }); // Stripe dedupes meter events by identifier too.
+			} catch (error) {
+				await this.manager.storage.delete(reportKey);
+				throw error;
+			}
+
+			return;
+		}
+
+		const customerId = await this.getCustomerId(data);
+		const key = `${customerId}:${eventName}:${Math.floor(timestamp / 60)}`;
+		const batch = this.pending.get(key);
+
+		if (batch) {
+			batch.quantity += data.quantity;
+			batch.timestamp = Math.max(batch.timestamp, timestamp);
+		} else {
+			this.pending.set(key, { customerId, eventName, quantity: data.quantity, timestamp, identifier: randomUUID() });
+		}
+
+		this.scheduleFlush(this.getFlushInterval());
+	}
+
+	// Batches that fail are retried with a growing delay, unless Stripe rejected them as invalid.
+	public async flushUsage(): Promise<number> {
+		const batches = [...this.failed, ...this.pending.values()];
+
+		this.failed = [];
+		this.pending.clear();
+
+		let sent = 0;
+
+		for (const batch of batches) {
+			try {
+				await this.sendBatch(batch);
+				sent++;
+			} catch (error) {
+				if (error instanceof Stripe.errors.StripeInvalidRequestError) this.manager.emit('debug', `Dropping ${batch.quantity} ${batch.eventName} usage of customer ${batch.customerId}: ${stringifyError(error)}`);
+				else this.failed.push(batch);
+			}
+		}
+
+		if (!this.failed.length) this.retries = 0;
+		else {
+			const delay = Math.min(this.getFlushInterval() * 2 ** this.retries++, MaxUsageRetryDelay);
+
+			this.manager.emit('debug', `Failed to send ${this.failed.length} usage batches, retrying in ${delay}ms.`);
+			this.scheduleFlush(delay);
+		}
+
+		return sent;
+	}
+
+	// Sends everything that is still batched and stops the flush timer, batches that fail again stay queued for the next flushUsage().
+	public async stop(): Promise<number> {
+		this.clearFlushTimer();
+
+		const sent = await this.flushUsage();
+		this.clearFlushTimer();
+
+		return sent;
+	}
+
+	public async getInvoiceUsage(invoice: Stripe.Invoice): Promise<UsageTotal[]> {
+		if (!this.manager.config.addons.some((addon) => addon.metered)) return [];
+
+		const lines = invoice.lines.has_more && invoice.id ? await this.internalGetAllInvoiceLines(invoice.id) : invoice.lines.data;
+		const stripeAddons = await this.stripeManager.addons.getStripeAddons();
+
+		const totals: Map<string, UsageTotal> = new Map();
+
+		for (const line of lines) {
+			const addon = stripeAddons.find((a) => a.metered && a.stripeProductId === line.pricing?.price_details?.product);
+			if (!addon) continue;
+
+			const total = totals.get(addon.addonId) ?? { addonId: addon.addonId, quantity: 0, amountCents: 0 };
+			total.quantity += line.quantity ?? 0;
+			total.amountCents += line.amount;
+
+			totals.set(addon.addonId, total);
+		}
+
+		return [...totals.values()];
+	}
+
+	private scheduleFlush(delay: number): void {
+		this.flushTimer ??= setTimeout(() => {
+			this.flushTimer = null;
+			this.flushUsage().catch((error) => this.manager.emit('debug', `Failed to flush usage: ${stringifyError(error)}`));
+		}, delay).unref();
+	}
+
+	private clearFlushTimer(): void {
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		this.flushTimer = null;
+	}
+
+	private getFlushInterval(): number {
+		return this.manager.config.options?.stripe?.usageFlushInterval || 1000 * 10; // 10 seconds
+	}
+
+	private async sendBatch(batch: UsageBatch): Promise<void> {
+		await this.stripe.billing.meterEvents.create({
+			event_name: batch.eventName,
+			identifier: batch.identifier,
+			timestamp: batch.timestamp,
+			payload: {
+				stripe_customer_id: batch.customerId,
+				value: batch.quantity.toString(),
+			},
+		});
+	}
+
+	private async internalGetAllInvoiceLines(invoiceId: string, acc: Stripe.InvoiceLineItem[] = [], startingAfter?: string): Promise<Stripe.InvoiceLineItem[]> {
+		const lines = await this.stripe.invoices.listLineItems(invoiceId, { limit: 100, starting_after: startingAfter });
+		acc.push(...lines.data);
+
+		if (lines.has_more) return this.internalGetAllInvoiceLines(invoiceId, acc, lines.data[lines.data.length - 1]?.id);
+		else return acc;
+	}
+
+	private async getCustomerId(data: UsageReportData): Promise<string> {
+		let subscriptionId: string | null = null;
+
+		if ('subscriptionId' in data) subscriptionId = data.subscriptionId;
+		else {
+			const entitlement = 'guildId' in data ? this.manager.entitlements.getGuildEntitlement(data.guildId) : this.manager.entitlements.getUserEntitlement(data.userId);
+			if (entitlement?.source === 'stripe') subscriptionId = entitlement.subscriptionId;
+		}
+
+		if (!subscriptionId) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, 'No Stripe subscription found to report usage for.', { addonId: data.addonId, guildId: 'guildId' in data ? data.guildId : undefined, userId: 'userId' in data ? data.userId : undefined });
+
+		const cached = this.customerIds.get(subscriptionId);
+		if (cached) return cached;
+
+		const subscription = await this.stripe.subscriptions.retrieve(subscriptionId).catch(() => null);
+		if (!subscription) throw new SubscriptionError(ErrorCode.SubscriptionNotFound, `Subscription not found for ID ${subscriptionId}.`, { subscriptionId, addonId: data.addonId });
+
+		const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+		this.customerIds.set(subscriptionId, customerId);
+
+		return customerId;
+	}
+}
+
 export class StripeCustomers {
 	constructor (private readonly manager: PremiumManager, private readonly stripe: Stripe) { }
 
@@ -1751,10 +3263,10 @@ export class StripeCustomers {
 
 	public async updateCustomer(data: CustomerQueryData, toUpdate: CustomerUpdateData): Promise<Stripe.Customer> {
 		const customer = await this.getCustomer(data);
-		if (!customer) throw new Error('Customer not found.');
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Customer not found.');
 
 		const userId = toUpdate.newUserId || customer.metadata.userId;
-		if (!userId) throw new Error('Missing user ID.');
+		if (!userId) throw new CustomerError(ErrorCode.InvalidMetadata, 'Missing user ID.', { customerId: customer.id });
 
 		const newCustomer = await this.stripe?.customers.update(customer.id, {
 			email: toUpdate.newEmail || customer.email || undefined,
@@ -1762,7 +3274,7 @@ export class StripeCustomers {
 			metadata: { userId: userId },
 		});
 
-		if (!newCustomer) throw new Error('Failed to update customer.');
+		if (!newCustomer) throw new CustomerError(ErrorCode.RequestFailed, 'Failed to update customer.', { customerId: customer.id });
 
 		if (userId !== customer.metadata.userId) {
 			const subscriptions = await this.stripe?.subscriptions.list({ customer: customer.id });
@@ -1783,7 +3295,7 @@ export class StripeCustomers {
 
 	public async getCustomerPaymentMethods(data: CustomerQueryData): Promise<Stripe.PaymentMethod[]> {
 		const customer = await this.getCustomer(data);
-		if (!customer) throw new Error('Customer not found.');
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Customer not found.');
 
 		const paymentMethods = await this.stripe.paymentMethods.list({ customer: customer.id });
 		return paymentMethods.data || [];
@@ -1799,14 +3311,14 @@ export class StripeCustomers {
 
 	public async getCustomerInvoices(data: CustomerQueryData): Promise<Stripe.Invoice[]> {
 		const customer = await this.getCustomer(data);
-		if (!customer) throw new Error('Customer not found.');
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Customer not found.');
 
 		return await this.getAllInvoicesInternal({ customer: customer.id });
 	}
 
 	public async createBillingPortalSession(data: CustomerQueryData, flow?: Stripe.BillingPortal.SessionCreateParams.FlowData): Promise<Stripe.BillingPortal.Session> {
 		const customer = await this.getCustomer(data);
-		if (!customer) throw new Error('Customer not found.');
+		if (!customer) throw new CustomerError(ErrorCode.CustomerNotFound, 'Customer not found.');
 
 		return await this.stripe.billingPortal.sessions.create({
 			customer: customer.id,
@@ -1,4 +1,9 @@
-// export * from './core/discord';
+export * from './core/discord';
+export * from './core/entitlements';
+export * from './core/http';
 export * from './core/manager';
+export * from './core/slots';
 
+export * from './other/errors';
+export * from './other/storage';
 export * from './other/types';
@@ -0,0 +1,60 @@
+import { ErrorCode, ErrorContext } from './types';
+
+export class StripeCordError extends Error {
+	constructor (readonly code: ErrorCode, message: string, readonly context: ErrorContext = {}) {
+		super(message);
+		this.name = 'StripeCordError';
+	}
+}
+
+export class ConfigError extends StripeCordError {
+	override name = 'ConfigError';
+}
+
+export class TierError extends StripeCordError {
+	override name = 'TierError';
+}
+
+export class AddonError extends StripeCordError {
+	override name = 'AddonError';
+}
+
+export class CouponError extends StripeCordError {
+	override name = 'CouponError';
+}
+
+export class PurchaseError extends StripeCordError {
+	override name = 'PurchaseError';
+}
+
+export class GiftError extends StripeCordError {
+	override name = 'GiftError';
+}
+
+export class SlotError extends StripeCordError {
+	override name = 'SlotError';
+}
+
+export class SubscriptionError extends StripeCordError {
+	override name = 'SubscriptionError';
+}
+
+export class CustomerError extends StripeCordError {
+	override name = 'CustomerError';
+}
+
+export class WebhookError extends StripeCordError {
+	override name = 'WebhookError';
+}
+
+export class StorageError extends StripeCordError {
+	override name = 'StorageError';
+}
+
+export class ListenerError extends StripeCordError {
+	override name = 'ListenerError';
+
+	constructor (message: string, readonly errors: unknown[]) {
+		super(ErrorCode.ListenerFailed, message);
+	}
+}
@@ -0,0 +1,104 @@
+import { FileStorage, MemoryStorage, setIfAbsent, withLock } from './storage';
+import { afterEach, describe, expect, it } from 'vitest';
+import { StorageAdapter } from './types';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+describe('MemoryStorage', () => {
+	it('claims a key only once, even for concurrent callers', async () => {
+		const storage = new MemoryStorage();
+		const results = await Promise.all([1, 2, 3].map(() => storage.setIfAbsent('key', true)));
+
+		expect(results.filter(Boolean)).toHaveLength(1);
+	});
+
+	it('lets an expired key be claimed again', async () => {
+		const storage = new MemoryStorage();
+
+		expect(await storage.setIfAbsent('key', true, 5)).toBe(true);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+
+		expect(await storage.has('key')).toBe(false);
+		expect(await storage.setIfAbsent('key', true)).toBe(true);
+	});
+});
+
+describe('FileStorage', () => {
+	let directory: string;
+
+	afterEach(async () => {
+		if (directory) await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	it('keeps the writes of two instances sharing a file', async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stripecord-'));
+		const filePath = path.join(directory, 'storage.json');
+
+		const first = new FileStorage(filePath);
+		const second = new FileStorage(filePath);
+
+		await Promise.all(Array.from({ length: 10 }, (_, i) => (i % 2 ? first : second).set(`key${i}`, i)));
+
+		const reader = new FileStorage(filePath);
+		for (let i = 0; i < 10; i++) expect(await reader.get(`key${i}`)).toBe(i);
+	});
+
+	it('claims a key only once across instances', async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stripecord-'));
+		const filePath = path.join(directory, 'storage.json');
+
+		const instances = [new FileStorage(filePath), new FileStorage(filePath), new FileStorage(filePath)];
+		const results = await Promise.all(instances.map((storage) => storage.setIfAbsent('processedEvent:evt_1', true)));
+
+		expect(results.filter(Boolean)).toHaveLength(1);
+	});
+
+	it('refuses to write over a file it cannot parse', async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stripecord-'));
+		const filePath = path.join(directory, 'storage.json');
+
+		const storage = new FileStorage(filePath);
+		await storage.set('key', 1);
+		await fs.writeFile(filePath, '{"key":', 'utf8');
+
+		await expect(storage.set('other', 2)).rejects.toMatchObject({ code: 'STORAGE_CORRUPTED' });
+		expect(await fs.readFile(filePath, 'utf8')).toBe('{"key":');
+	});
+});
+
+describe('withLock', () => {
+	it('runs operations on the same key one at a time', async () => {
+		const storage = new MemoryStorage();
+		const order: string[] = [];
+
+		const run = (name: string) => withLock(storage, 'key', async () => {
+			order.push(`${name}:start`);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			order.push(`${name}:end`);
+		});
+
+		await Promise.all([run('a'), run('b')]);
+		expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+	});
+
+	it('releases the lock when the operation throws', async () => {
+		const storage = new MemoryStorage();
+
+		await expect(withLock(storage, 'key', async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+		expect(await storage.has('lock:key')).toBe(false);
+	});
+
+	it('falls back to has() and set() for adapters without setIfAbsent()', async () => {
+		const memory = new MemoryStorage();
+		const storage: StorageAdapter = {
+			get: (key) => memory.get(key),
+			set: (key, value, ttlMs) => memory.set(key, value, ttlMs),
+			has: (key) => memory.has(key),
+			delete: (key) => memory.delete(key),
+		};
+
+		expect(await setIfAbsent(storage, 'key', true)).toBe(true);
+		expect(await setIfAbsent(storage, 'key', true)).toBe(false);
+	});
+});
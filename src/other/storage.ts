@@ -0,0 +1,234 @@
+import { ErrorCode, StorageAdapter } from './types';
+import { StorageError } from './errors';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+const LockRetryDelay = 25; // ms
+const StaleFileLock = 1000 * 10; // 10 seconds
+
+type StoredEntry = {
+	value: unknown;
+	expiresAt: number | null;
+};
+
+const LocalLocks: WeakMap<StorageAdapter, Map<string, Promise<unknown>>> = new WeakMap();
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Adapters without setIfAbsent() fall back to has() and set(), which is only atomic within a single process.
+export async function setIfAbsent<T = unknown>(storage: StorageAdapter, key: string, value: T, ttlMs?: number): Promise<boolean> {
+	if (storage.setIfAbsent) return storage.setIfAbsent(key, value, ttlMs);
+	else if (await storage.has(key)) return false;
+
+	await storage.set(key, value, ttlMs);
+	return true;
+}
+
+// Runs one operation per key at a time, in this process through a queue and across processes through a lock entry in the storage.
+// The lock entry expires after ttlMs, so a crashed holder never blocks the key for good.
+export async function withLock<T>(storage: StorageAdapter, key: string, operation: () => Promise<T>, ttlMs = 1000 * 30): Promise<T> {
+	const locks = LocalLocks.get(storage) ?? new Map<string, Promise<unknown>>();
+	LocalLocks.set(storage, locks);
+
+	const previous = locks.get(key) ?? Promise.resolve();
+	const result = previous.catch(() => null).then(async () => {
+		const lockKey = `lock:${key}`;
+		const token = randomUUID();
+
+		while (!await setIfAbsent(storage, lockKey, token, ttlMs)) await sleep(LockRetryDelay);
+
+		try {
+			return await operation();
+		} finally {
+			if (await storage.get(lockKey) === token) await storage.delete(lockKey);
+		}
+	});
+
+	const settled = result.catch(() => null);
+	locks.set(key, settled);
+	settled.then(() => locks.get(key) === settled && locks.delete(key));
+
+	return result;
+}
+
+export class MemoryStorage implements StorageAdapter {
+	private entries: Map<string, StoredEntry> = new Map();
+
+	constructor (cleanupIntervalMs: number = 1000 * 60 * 5) {
+		setInterval(() => this.cleanup(), cleanupIntervalMs).unref();
+	}
+
+	public async get<T = unknown>(key: string): Promise<T | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
+			this.entries.delete(key);
+			return undefined;
+		}
+
+		return entry.value as T;
+	}
+
+	public async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+		this.entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+	}
+
+	public async has(key: string): Promise<boolean> {
+		return (await this.get(key)) !== undefined;
+	}
+
+	// Checked and set without awaiting in between, so no other call can claim the key in the meantime.
+	public async setIfAbsent<T = unknown>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+		const entry = this.entries.get(key);
+		if (entry && (entry.expiresAt === null || Date.now() <= entry.expiresAt)) return false;
+
+		this.entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+		return true;
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		return this.entries.delete(key);
+	}
+
+	private cleanup(): void {
+		const now = Date.now();
+		for (const [key, { expiresAt }] of this.entries) {
+			if (expiresAt !== null && now > expiresAt) {
+				this.entries.delete(key);
+			}
+		}
+	}
+}
+
+// Safe to share between processes, every write re-reads the file while holding a lock file next to it.
+export class FileStorage implements StorageAdapter {
+	private entries: Record<string, StoredEntry> = {};
+	private lastModified = 0;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor (private readonly filePath: string) { }
+
+	public async get<T = unknown>(key: string): Promise<T | undefined> {
+		return this.enqueue(async () => {
+			await this.load();
+
+			// Expired entries are dropped by the next write, reads never touch the file.
+			const entry = this.entries[key];
+			if (!entry || (entry.expiresAt !== null && Date.now() > entry.expiresAt)) return undefined;
+
+			return entry.value as T;
+		});
+	}
+
+	public async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+		return this.write(async () => {
+			this.entries[key] = { value, expiresAt: ttlMs ? Date.now() + ttlMs : null };
+		});
+	}
+
+	public async setIfAbsent<T = unknown>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+		return this.write(async () => {
+			const entry = this.entries[key];
+			if (entry && (entry.expiresAt === null || Date.now() <= entry.expiresAt)) return false;
+
+			this.entries[key] = { value, expiresAt: ttlMs ? Date.now() + ttlMs : null };
+			return true;
+		});
+	}
+
+	public async has(key: string): Promise<boolean> {
+		return (await this.get(key)) !== undefined;
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		return this.write(async () => {
+			if (!(key in this.entries)) return false;
+
+			delete this.entries[key];
+			return true;
+		});
+	}
+
+	// Operations are serialized so concurrent writes from this process never interleave.
+	private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(operation, operation);
+		this.queue = result.catch(() => null);
+		return result;
+	}
+
+	private write<T>(operation: () => Promise<T>): Promise<T> {
+		return this.enqueue(() => this.withFileLock(async () => {
+			await this.load(true);
+
+			const result = await operation();
+			await this.save();
+
+			return result;
+		}));
+	}
+
+	// Other processes wait for the lock file, a lock left behind by a crashed process is taken over once it is stale.
+	private async withFileLock<T>(operation: () => Promise<T>): Promise<T> {
+		const lockPath = `${this.filePath}.lock`;
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+		while (true) {
+			const handle = await fs.open(lockPath, 'wx').catch((error: NodeJS.ErrnoException) => {
+				if (error.code === 'EEXIST') return null;
+				throw error;
+			});
+
+			if (handle) {
+				await handle.close();
+				break;
+			}
+
+			const stats = await fs.stat(lockPath).catch(() => null);
+			if (stats && Date.now() - stats.mtimeMs > StaleFileLock) await fs.unlink(lockPath).catch(() => null);
+			else await sleep(LockRetryDelay);
+		}
+
+		try {
+			return await operation();
+		} finally {
+			await fs.unlink(lockPath).catch(() => null);
+		}
+	}
+
+	// Re-reads the file whenever another process has written to it since our last read, writes always re-read it.
+	private async load(force = false): Promise<void> {
+		const stats = await fs.stat(this.filePath).catch(() => null);
+		if (!stats || (!force && stats.mtimeMs === this.lastModified)) return;
+
+		const content = await fs.readFile(this.filePath, 'utf8').catch(() => null);
+		if (!content) return;
+
+		// A file that can't be parsed must never be replaced by an empty map on the next write, so nothing is read or written until it is fixed.
+		try {
+			this.entries = JSON.parse(content);
+			this.lastModified = stats.mtimeMs;
+		} catch (error) {
+			throw new StorageError(ErrorCode.StorageCorrupted, `Storage file ${this.filePath} could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	private async save(): Promise<void> {
+		const now = Date.now();
+		for (const [key, { expiresAt }] of Object.entries(this.entries)) {
+			if (expiresAt !== null && now > expiresAt) delete this.entries[key];
+		}
+
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		await fs.writeFile(tempPath, JSON.stringify(this.entries), 'utf8');
+		await fs.rename(tempPath, this.filePath);
+
+		const stats = await fs.stat(this.filePath).catch(() => null);
+		if (stats) this.lastModified = stats.mtimeMs;
+	}
+}
@@ -1,24 +1,78 @@
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
 import Stripe from 'stripe';
 
 export type ConfigType = {
 	premiumTiers: PremiumTier[];
 	addons: Addon[];
+	coupons?: Coupon[];
+	products?: OneTimeProduct[];
 
 	stripeApiKey: string;
 	stripeWebhookUrl: string;
 	stripeWebhookSecret?: string;
 
 	options?: {
+		storage?: StorageAdapter; // Where processed webhook events and cached subscriptions are kept, defaults to in-memory storage.
+		awaitListeners?: boolean; // If true, webhooks wait for all (async) listeners and respond with 500 when one fails, so Stripe retries the event.
+		guildSlotCooldown?: number; // How long (ms) an assigned guild slot stays in place before it can be moved, defaults to 7 days.
 		stripe?: {
+			client?: Stripe.StripeConfig; // Passed to the Stripe client as is, e.g. to set a timeout, maxNetworkRetries or your own httpClient.
 			cacheSubscriptions?: boolean; // If true, the manager will cache subscriptions for 5 minutes to reduce API calls.
-			deleteUnknownTiers?: boolean; // If a tier is deleted from the database, should it be deleted from Stripe as well?
+			deleteUnknownTiers?: boolean; // If a tier or addon is removed from the config, should it be archived in Stripe as well? Defaults to true.
+			deleteUnknownCoupons?: boolean; // If a coupon is removed from the config, should it be deleted in Stripe (and its promotion codes archived)? Defaults to false.
 			includeTaxInPrice?: boolean; // If the price includes tax, set this to true.
+			allowPromotionCodes?: boolean; // Lets customers enter promotion codes on the checkout page, defaults to true.
+			giftRedeemDays?: number; // How long purchased gift codes can be redeemed for, defaults to 365 days.
+			usageFlushInterval?: number; // How long (ms) reported usage is batched before it is sent to Stripe, defaults to 10 seconds.
 			defaultDueDays?: number; // Default number of days before payment is due for upgrades or addon changes.
 			redirectUrl?: string; // URL to redirect to after a successful payment, only base URL is needed.
+			processedEventsTtl?: number; // How long (ms) a webhook event stays claimed while it is processed, handled events are remembered for 30 days regardless. Defaults to 1 hour.
+		};
+		discord?: {
+			client?: DiscordClient; // Required for role sync, wrap your Discord library of choice with it.
+			supportGuildId?: string; // Guild in which roles for user subscriptions are granted.
+			tierRoles?: Record<string, string[]>; // Tier ID to the roles granted while subscribed to it.
+			addonRoles?: Record<string, string[]>; // Addon ID to the roles granted while it is part of the subscription.
+			skus?: Record<string, DiscordSkuMapping>; // Discord SKU ID to the tier (and addons) it grants when bought through Discord's monetization.
 		};
 	};
 };
 
+export type DiscordSkuMapping = {
+	tierId: string;
+	addons?: WithQuantity<Pick<Addon, 'addonId'>>[];
+};
+
+export type DiscordEntitlementAction = 'create' | 'update' | 'delete';
+
+// https://discord.com/developers/docs/resources/entitlement#entitlement-object
+export type DiscordEntitlement = {
+	id: string;
+	sku_id: string;
+	application_id: string;
+	user_id?: string | null;
+	guild_id?: string | null;
+	type: number;
+	deleted: boolean;
+	starts_at?: string | null;
+	ends_at?: string | null;
+	consumed?: boolean;
+};
+
+export type DiscordClient = {
+	addMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<unknown>;
+	removeMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<unknown>;
+	resolveRoleId?(guildId: string, role: string): Promise<string | null>; // Role IDs differ per guild, so guild subscriptions can map configured roles (e.g. by name) to the actual role ID.
+};
+
+export type StorageAdapter = {
+	get<T = unknown>(key: string): Promise<T | undefined>;
+	set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void>; // Entries without a TTL never expire.
+	has(key: string): Promise<boolean>;
+	delete(key: string): Promise<boolean>;
+	setIfAbsent?<T = unknown>(key: string, value: T, ttlMs?: number): Promise<boolean>; // Sets the key only when it is missing, atomically. Needed to share dedupe and locks between processes.
+};
+
 export enum ChargeType {
 	Immediate = 'immediate',
 	EndOfPeriod = 'endOfPeriod',
@@ -32,12 +86,94 @@ export enum WhatHappened {
 	Nothing = 'nothing'
 }
 
+export enum ErrorCode {
+	InvalidConfig = 'INVALID_CONFIG',
+	InvalidInput = 'INVALID_INPUT',
+	InvalidMetadata = 'INVALID_METADATA',
+	RequestFailed = 'REQUEST_FAILED',
+
+	TierNotFound = 'TIER_NOT_FOUND',
+	TierInactive = 'TIER_INACTIVE',
+	TierTypeMismatch = 'TIER_TYPE_MISMATCH',
+
+	AddonNotFound = 'ADDON_NOT_FOUND',
+	AddonInactive = 'ADDON_INACTIVE',
+	AddonTypeMismatch = 'ADDON_TYPE_MISMATCH',
+
+	InvalidPrice = 'INVALID_PRICE',
+	InvalidDiscount = 'INVALID_DISCOUNT',
+	InvalidQuantity = 'INVALID_QUANTITY',
+	PriceSyncFailed = 'PRICE_SYNC_FAILED',
+
+	SubscriptionNotFound = 'SUBSCRIPTION_NOT_FOUND',
+	SubscriptionTypeMismatch = 'SUBSCRIPTION_TYPE_MISMATCH',
+	AlreadySubscribed = 'ALREADY_SUBSCRIBED',
+	InvoiceFailed = 'INVOICE_FAILED',
+	ChangeAlreadyScheduled = 'CHANGE_ALREADY_SCHEDULED',
+
+	ProductNotFound = 'PRODUCT_NOT_FOUND',
+	ProductInactive = 'PRODUCT_INACTIVE',
+	AlreadyPurchased = 'ALREADY_PURCHASED',
+
+	GiftNotFound = 'GIFT_NOT_FOUND',
+	GiftAlreadyRedeemed = 'GIFT_ALREADY_REDEEMED',
+	GiftExpired = 'GIFT_EXPIRED',
+
+	SlotsUnavailable = 'SLOTS_UNAVAILABLE',
+	SlotNotAssigned = 'SLOT_NOT_ASSIGNED',
+	SlotOnCooldown = 'SLOT_ON_COOLDOWN',
+
+	CustomerNotFound = 'CUSTOMER_NOT_FOUND',
+	ChargeNotFound = 'CHARGE_NOT_FOUND',
+
+	WebhookNotConfigured = 'WEBHOOK_NOT_CONFIGURED',
+	WebhookSignatureInvalid = 'WEBHOOK_SIGNATURE_INVALID',
+
+	InvalidEntitlement = 'INVALID_ENTITLEMENT',
+	ListenerFailed = 'LISTENER_FAILED',
+
+	StorageCorrupted = 'STORAGE_CORRUPTED',
+}
+
+export type ErrorContext = {
+	tierId?: string;
+	addonId?: string;
+	subscriptionId?: string;
+	customerId?: string;
+	productId?: string;
+	chargeId?: string;
+	couponId?: string;
+	giftCode?: string;
+	oneTimeProductId?: string;
+	paymentIntentId?: string;
+
+	userId?: string;
+	guildId?: string;
+	skuId?: string;
+};
+
 export enum CollectionMethod {
 	ChargeAutomatically = 'chargeAutomatically',
 	SendInvoice = 'sendInvoice',
 }
 
+export enum DriftType {
+	MissingMetadata = 'missingMetadata',
+	UnknownTier = 'unknownTier',
+	TierMismatch = 'tierMismatch',
+	TypeMismatch = 'typeMismatch',
+	IntervalMismatch = 'intervalMismatch',
+	UnknownAddon = 'unknownAddon',
+	DuplicateSubscription = 'duplicateSubscription',
+	MissingLocally = 'missingLocally',
+	MissingInStripe = 'missingInStripe',
+	LocalTierMismatch = 'localTierMismatch',
+}
+
 export type TierType = 'guild' | 'user';
+export type BillingInterval = 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly';
+export type SubscriptionSource = 'stripe' | 'discord' | 'gift' | 'purchase';
+export type PurchaseKind = 'lifetime' | 'addon' | 'consumable';
 export type ManagerEventTypes = keyof ManagerEvents;
 
 export type PremiumTier = {
@@ -46,8 +182,16 @@ export type PremiumTier = {
 	tierId: string;
 	priceCents: number;
 	yearlyMultiplier?: number;
+	intervals?: Partial<Record<BillingInterval, IntervalPricing>>; // Intervals this can be billed in, defaults to monthly and yearly.
 	currency?: string; // https://docs.stripe.com/currencies
+	currencyPrices?: Record<string, number>; // Monthly price in cents per additional currency, e.g. { eur: 500, gbp: 450 }, yearly prices use the same multiplier.
 	isActive: boolean;
+	trialDays?: number; // Free trial for first-time subscribers, every user (or guild, for guild tiers) gets one trial. Used trials are remembered in options.storage, so use a persistent one.
+	seats?: SeatLimits; // Makes the tier priced per seat (e.g. per member or staff seat), priceCents is then the price of one seat.
+	guildSlots?: number; // User tiers only, how many guilds the subscriber can apply premium to (like server boosts).
+
+	features?: Record<string, boolean>; // Feature flags unlocked by this tier.
+	limits?: Record<string, number>; // Numeric limits granted by this tier, e.g. { customCommands: 50 }.
 };
 
 export type Addon = {
@@ -56,19 +200,91 @@ export type Addon = {
 	addonId: string;
 	priceCents: number;
 	yearlyMultiplier?: number;
+	intervals?: Partial<Record<BillingInterval, IntervalPricing>>; // Intervals this can be billed in, defaults to monthly and yearly.
+	currency?: string; // https://docs.stripe.com/currencies
+	currencyPrices?: Record<string, number>; // Monthly price in cents per additional currency, e.g. { eur: 500, gbp: 450 }, yearly prices use the same multiplier.
+	isActive: boolean;
+
+	metered?: boolean; // Billed per use reported through reportUsage(), priceCents is then the price per use in every interval.
+	meterEventName?: string; // Event name of the Stripe meter for metered addons, defaults to stripecord_<addonId>.
+
+	features?: Record<string, boolean>; // Feature flags unlocked while at least one unit of this addon is active.
+	limits?: Record<string, number>; // Added on top of the tier limits once per unit of quantity.
+};
+
+export type OneTimeProduct = {
+	name: string;
+	type: TierType;
+	productId: string;
+	kind: PurchaseKind; // Lifetime and addon products are bought once per user (or guild), consumables as often as wanted.
+	priceCents: number;
 	currency?: string; // https://docs.stripe.com/currencies
+	currencyPrices?: Record<string, number>; // Price in cents per additional currency, e.g. { eur: 500, gbp: 450 }.
 	isActive: boolean;
+
+	tierId?: string; // Tier granted for good by lifetime products.
+	addonId?: string; // Addon owned for good by addon products, check it with hasPurchased().
+	units?: number; // Units credited per consumable bought, defaults to 1.
+};
+
+export type SeatLimits = {
+	min?: number; // Defaults to 1.
+	max?: number;
+};
+
+export type IntervalPricing = {
+	priceCents?: number; // Price in the base currency, overrides the multiplier.
+	multiplier?: number; // Applied to the monthly priceCents (and currencyPrices), defaults to 0.25 weekly, 3 quarterly, 6 semi-annually and yearlyMultiplier yearly.
+	currencyPrices?: Record<string, number>; // Overrides the multiplied price per additional currency.
+};
+
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+export type Coupon = {
+	couponId: string; // Also used as the Stripe coupon ID, versions created for changed terms append _v2, _v3 and so on.
+	name: string;
+	percentOff?: number;
+	amountOffCents?: number; // Ignored when percentOff is set.
+	currency?: string; // Required for amountOffCents, defaults to usd.
+	duration: CouponDuration;
+	durationInMonths?: number; // Only used by repeating coupons.
+	maxRedemptions?: number;
+	expiresAt?: Date;
+
+	tierIds?: string[]; // Restricts the discount to these tiers, applies to everything when both lists are empty.
+	addonIds?: string[]; // Restricts the discount to these addons.
+
+	promotionCodes?: PromotionCode[];
+};
+
+export type PromotionCode = {
+	code: string; // What customers enter at checkout.
+	isActive?: boolean; // Defaults to true.
+	maxRedemptions?: number;
+	expiresAt?: Date;
+	firstTimeOnly?: boolean; // Only redeemable by customers without earlier payments.
+};
+
+export type DiscountInput = { couponId: string; } | { promoCode: string; };
+
+export type FeatureSet = {
+	features: Record<string, boolean>;
+	limits: Record<string, number>;
+};
+
+export type StripeOneTimeProduct = OneTimeProduct & {
+	priceId: string;
+	stripeProductId: string;
 };
 
 export type StripeTier = PremiumTier & {
-	monthlyPriceId: string;
-	yearlyPriceId: string;
+	priceIds: Partial<Record<BillingInterval, string>>;
 	stripeProductId: string;
 };
 
 export type StripeAddon = Addon & {
-	yearlyPriceId: string;
-	monthlyPriceId: string;
+	meterId: string | null; // Set for metered addons.
+	priceIds: Partial<Record<BillingInterval, string>>;
 	stripeProductId: string;
 };
 
@@ -76,6 +292,66 @@ export type WithQuantity<T> = T & {
 	quantity: number;
 };
 
+export type CatalogItemType = 'tier' | 'addon' | 'coupon' | 'product';
+
+export type SyncItemRef = {
+	which: CatalogItemType;
+	id: string; // Tier, addon, coupon or one-time product ID.
+};
+
+// A productId of null refers to the product created by an earlier createProduct operation of the same plan, likewise for a null priceId.
+// Price operations of one-time products have a null interval, metered prices reference their meter by event name.
+// Coupon operations carry the Stripe coupon ID, changed terms create a new version of the coupon (e.g. SUMMER_v2) that replaces the old one.
+export type SyncOperation =
+	| { type: 'createProduct'; item: SyncItemRef; name: string; tierType: TierType; active: boolean; }
+	| { type: 'renameProduct'; item: SyncItemRef; productId: string; from: string; to: string; }
+	| { type: 'changeTypeMetadata'; item: SyncItemRef; productId: string; from: string | null; to: TierType; }
+	| { type: 'reactivateProduct'; item: SyncItemRef; productId: string; }
+	| { type: 'archiveProduct'; item: SyncItemRef; productId: string; }
+	| { type: 'createPrice'; item: SyncItemRef; productId: string | null; interval: BillingInterval | null; version: number; unitAmount: number; currency: string; currencyOptions: Record<string, number>; tierType: TierType; active: boolean; meterEventName: string | null; }
+	| { type: 'reactivatePrice'; item: SyncItemRef; priceId: string; interval: BillingInterval | null; }
+	| { type: 'archivePrice'; item: SyncItemRef; priceId: string; interval: BillingInterval | null; }
+	| { type: 'setDefaultPrice'; item: SyncItemRef; productId: string | null; priceId: string | null; interval: BillingInterval | null; }
+	| { type: 'createMeter'; item: SyncItemRef; eventName: string; displayName: string; }
+	| { type: 'reactivateMeter'; item: SyncItemRef; meterId: string; eventName: string; }
+	| { type: 'createCoupon'; item: SyncItemRef; couponId: string; version: number; replaces: string | null; coupon: Omit<Coupon, 'promotionCodes'>; }
+	| { type: 'renameCoupon'; item: SyncItemRef; couponId: string; from: string; to: string; }
+	| { type: 'deleteCoupon'; item: SyncItemRef; couponId: string; }
+	| { type: 'createPromotionCode'; item: SyncItemRef; couponId: string; promotionCode: PromotionCode; }
+	| { type: 'reactivatePromotionCode'; item: SyncItemRef; promotionCodeId: string; code: string; }
+	| { type: 'archivePromotionCode'; item: SyncItemRef; promotionCodeId: string; code: string; };
+
+export type PriceVersion = {
+	version: number;
+	interval: BillingInterval;
+	priceId: string;
+	unitAmount: number;
+	currency: string;
+	isCurrent: boolean; // Archived versions are no longer offered, but keep billing the subscribers still on them.
+	createdAt: Date;
+};
+
+export type MigrateSubscribersOptions = {
+	tierId: string;
+	from: number; // Price version to move subscribers away from.
+	to?: number; // Defaults to the current version.
+	prorate?: boolean; // Only used with effective 'now', defaults to false.
+	effective?: 'now' | 'nextPeriod'; // 'now' restarts the billing period at the new price, 'nextPeriod' schedules it for the next period (skipping subscriptions with a pending change). Defaults to 'nextPeriod'.
+	batchSize?: number; // Subscriptions updated in parallel, defaults to 25.
+	includeGrandfathered?: boolean; // Also move subscriptions marked with setGrandfathered(), defaults to false.
+};
+
+export type MigrationProgress = {
+	tierId: string;
+	from: number;
+	to: number;
+
+	total: number;
+	migrated: number;
+	skipped: number; // Grandfathered, or there is no price of the target version in their interval.
+	failed: number;
+};
+
 export type CustomerCreateData = {
 	userId: string;
 	email: string;
@@ -97,11 +373,30 @@ export type ManagerEvents = {
 	'subscriptionUpdate': [data: SubscriptionUpdateData];
 	'subscriptionTierChange': [data: SubscriptionTierChangeData];
 	'subscriptionAddonsUpdate': [data: SubscriptionAddonChangeData];
+	'subscriptionSeatsChange': [data: SubscriptionSeatsChangeData];
+	'subscriptionChangeScheduled': [data: SubscriptionChangeScheduledData];
+	'subscriptionPause': [data: SubscriptionPauseData];
+	'subscriptionResume': [data: SubscriptionResumeData];
 	'subscriptionRenew': [data: SubscriptionRenewData];
 
+	'trialWillEnd': [data: TrialEventData];
+	'trialConverted': [data: TrialEventData];
+	'trialExpired': [data: TrialEventData];
+
 	'invoiceNeedsPayment': [data: InvoiceNeedsPayment];
 	'invoicePaymentFailed': [data: InvoicePaymentFailed];
 
+	'giftPurchased': [data: GiftPurchasedData];
+	'giftRedeemed': [data: GiftSourcedData];
+
+	'purchaseCompleted': [data: PurchaseEventData];
+	'purchaseRefunded': [data: PurchaseRefundedData];
+
+	'guildSlotAssigned': [data: GuildSlotAssignedData];
+	'guildSlotRemoved': [data: GuildSlotRemovedData];
+
+	'driftDetected': [data: DriftData];
+	'migrationProgress': [data: MigrationProgress];
 	'unprocessedWebhook': [data: unknown];
 	'earlyFraudWarning': [data: Stripe.Radar.EarlyFraudWarning];
 	'disputeWarning': [data: DisputeWarningData];
@@ -113,15 +408,159 @@ export type WebhookResponse = {
 	message: string;
 };
 
+// Paused subscriptions are compared as if they did not exist, their premium is suspended until they are resumed.
+export type ReconcileSnapshot = {
+	users?: Record<string, string>; // User ID to the tier ID your app currently grants.
+	guilds?: Record<string, string>; // Guild ID to the tier ID your app currently grants.
+};
+
+export type DriftData = {
+	type: DriftType;
+	message: string;
+	suggestedFix: string;
+
+	subscriptionId: string | null;
+	userId: string | null;
+	guildId: string | null;
+
+	raw: {
+		subscription: Stripe.Subscription | null;
+	};
+};
+
+export type ReplayOptions = {
+	since: Date;
+	until?: Date;
+};
+
+export type ReplayResult = {
+	emitted: number;
+	skipped: number; // Already processed, either live or by an earlier replay.
+	ignored: number; // Rejected as invalid (e.g. missing metadata), replaying them again would not change that.
+	failed: number;
+};
+
+export type ExpressLikeRequest = IncomingMessage & {
+	body?: unknown;
+	rawBody?: Buffer | string;
+};
+
+export type FastifyLikeRequest = {
+	headers: IncomingHttpHeaders;
+	body?: unknown;
+	rawBody?: Buffer | string;
+	raw: IncomingMessage;
+};
+
+export type FastifyLikeReply = {
+	code(statusCode: number): FastifyLikeReply;
+	send(payload?: unknown): unknown;
+};
+
+export type FastifyLikeInstance = {
+	addContentTypeParser(contentType: string, options: { parseAs: 'buffer'; }, parser: (request: unknown, body: Buffer, done: (err: Error | null, body?: Buffer) => void) => void): void;
+	post(path: string, handler: (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>): void;
+};
+
 export type BaseSubscriptionData<T extends TierType = TierType> = {
 	type: T;
+	source: SubscriptionSource;
 	tier: PremiumTier;
 
 	userId: string;
 	guildId: T extends 'guild' ? string : null;
 
-	isAnnual: boolean;
+	interval: BillingInterval;
+	seats: number; // Quantity of the tier item, always 1 for tiers that are not seat-based.
 	addons: WithQuantity<StripeAddon>[];
+	featureSet: FeatureSet;
+
+	trial: TrialInfo | null; // Set when the subscription started with a trial.
+	pause: PauseInfo | null; // Set while payment collection is paused.
+};
+
+export type TrialInfo = {
+	isActive: boolean; // Still within the trial period.
+	startedAt: Date;
+	endsAt: Date;
+};
+
+export type PauseBehavior = Stripe.Subscription.PauseCollection.Behavior;
+
+export type PauseInfo = {
+	behavior: PauseBehavior; // What happens to invoices created while paused.
+	resumesAt: Date | null; // Null when paused until resumed manually.
+};
+
+export type PauseOptions = {
+	behavior: PauseBehavior;
+	until?: Date; // Resumes automatically at this date, stays paused until resumeSubscription() otherwise.
+};
+
+export type Entitlement<T extends TierType = TierType> = {
+	subscriptionId: string; // Discord entitlement ID for purchases made through Discord, gift code for redeemed gifts, payment intent ID for lifetime purchases.
+	source: SubscriptionSource;
+
+	type: T;
+	tierId: string;
+
+	userId: string;
+	guildId: T extends 'guild' ? string : null;
+
+	interval: BillingInterval;
+	seats: number;
+	addons: WithQuantity<Pick<Addon, 'addonId'>>[];
+	featureSet: FeatureSet;
+
+	status: Stripe.Subscription.Status;
+	cancelAtPeriodEnd: boolean;
+	currentPeriodEnd: Date | null;
+	pause: PauseInfo | null; // Paused subscriptions are kept but grant no premium until resumed.
+};
+
+export type PremiumSubcommand = 'subscribe' | 'status' | 'manage';
+
+export type CommandContext = {
+	userId: string;
+	email?: string; // Required to subscribe, customers are matched by both email and user ID.
+
+	guildId?: string | null;
+	guildName?: string;
+};
+
+export type SubscribeCommandOptions = {
+	tierId: string;
+	addonId?: string;
+	interval?: BillingInterval; // Defaults to monthly.
+};
+
+export type CommandReply = {
+	content: string;
+	ephemeral: boolean;
+
+	embeds: CommandEmbed[];
+	buttons: CommandButton[]; // Link buttons, render them in an action row.
+};
+
+export type CommandEmbed = {
+	title: string;
+	description?: string;
+	color?: number;
+	fields: { name: string; value: string; inline?: boolean; }[];
+};
+
+export type CommandButton = {
+	label: string;
+	url: string;
+};
+
+export type ApplicationCommandData = {
+	name: string;
+	description: string;
+	type?: number;
+	required?: boolean;
+	choices?: { name: string; value: string; }[];
+	options?: ApplicationCommandData[];
 };
 
 export type BaseInvoiceEvent<T extends TierType = TierType> = BaseSubscriptionData<T> & {
@@ -141,20 +580,44 @@ export type BaseInvoiceEvent<T extends TierType = TierType> = BaseSubscriptionDa
 
 export type InvoiceNeedsPayment<T extends TierType = TierType> = BaseInvoiceEvent<T> & {
 	dueDate: Date | null;
+	usage: UsageTotal[]; // Metered addon usage billed by this invoice.
 };
 
 export type InvoicePaymentFailed<T extends TierType = TierType> = BaseInvoiceEvent<T> & {
 	nextAttempt: Date | null;
 };
 
-export type SubscriptionCreateData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+export type DiscordSourcedData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	source: 'discord';
+	raw: {
+		entitlement: DiscordEntitlement;
+	};
+};
+
+export type GiftSourcedData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	source: 'gift';
+	raw: {
+		gift: Gift;
+	};
+};
+
+export type PurchaseSourcedData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	source: 'purchase';
+	raw: {
+		purchase: Purchase;
+	};
+};
+
+export type SubscriptionRenewData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	source: 'stripe';
+	usage: UsageTotal[]; // Metered addon usage billed by the paid invoice, which covers the period that just ended.
 	raw: {
 		subscription: Stripe.Subscription;
 		invoice: Stripe.Invoice;
 	};
 };
 
-export type SubscriptionRenewData<T extends TierType = TierType> = SubscriptionCreateData<T>;
+export type SubscriptionCreateData<T extends TierType = TierType> = SubscriptionRenewData<T> | DiscordSourcedData<T> | GiftSourcedData<T> | PurchaseSourcedData<T>;
 
 export type SubscriptionUpdateData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
 	raw: {
@@ -165,15 +628,50 @@ export type SubscriptionUpdateData<T extends TierType = TierType> = BaseSubscrip
 
 export type SubscriptionCancelData<T extends TierType = TierType> = SubscriptionUpdateData<T>;
 
+export type PendingChange = {
+	scheduleId: string;
+	effectiveAt: Date; // Start of the period the change applies to.
+
+	tierId: string;
+	seats: number;
+	addons: WithQuantity<Pick<Addon, 'addonId'>>[];
+};
+
+export type SubscriptionChangeScheduledData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	change: PendingChange;
+	raw: {
+		subscription: Stripe.Subscription;
+		schedule: Stripe.SubscriptionSchedule;
+	};
+};
+
+export type SubscriptionPauseData<T extends TierType = TierType> = SubscriptionUpdateData<T> & {
+	pause: PauseInfo;
+};
+
+export type SubscriptionResumeData<T extends TierType = TierType> = SubscriptionUpdateData<T>;
+
+export type TrialEventData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+	source: 'stripe';
+	raw: {
+		subscription: Stripe.Subscription;
+	};
+};
+
 export type SubscriptionTierChangeData<T extends TierType = TierType> = Omit<SubscriptionUpdateData<T>, 'tier'> & {
 	newTier: PremiumTier;
 	oldTier: PremiumTier;
 };
 
-export type SubscriptionDeleteData<T extends TierType = TierType> = BaseSubscriptionData<T> & {
+export type SubscriptionDeleteData<T extends TierType = TierType> = (BaseSubscriptionData<T> & {
+	source: 'stripe';
 	raw: {
 		subscription: Stripe.Subscription;
 	};
+}) | DiscordSourcedData<T> | GiftSourcedData<T> | PurchaseSourcedData<T>;
+
+export type SubscriptionSeatsChangeData<T extends TierType = TierType> = SubscriptionUpdateData<T> & {
+	previousSeats: number;
 };
 
 export type SubscriptionAddonChangeData<T extends TierType = TierType> = Omit<SubscriptionUpdateData<T>, 'addons'> & {
@@ -195,10 +693,137 @@ export type SubscriptionCreateInputData = {
 	guildName?: string;
 
 	addons?: WithQuantity<Pick<Addon, 'addonId'>>[];
-	trialEndsAt?: Date;
+	seats?: number; // For seat-based tiers, defaults to the tier's minimum.
+	trialEndsAt?: Date; // Overrides the tier's trialDays, only applied when the user (or guild) has not had a trial yet.
+
+	metadata?: Record<string, string>;
+	interval?: BillingInterval; // Defaults to monthly.
+	currency?: string; // Preferred currency, defaults to the customer's currency when the tier and addons are priced in it.
+	promoCode?: string; // Applied to the checkout session, must be valid for the tier or one of the addons.
+};
 
+export type GiftCreateInputData = {
+	customer: CustomerCreateData; // The purchaser, the recipient only needs the gift code.
+	tierId: string;
+	months: number;
+
+	currency?: string;
 	metadata?: Record<string, string>;
-	isAnnual?: boolean;
+};
+
+export type PremiumTarget = { userId: string; } | { guildId: string; };
+
+export type Gift = {
+	code: string;
+	tierId: string;
+	months: number;
+
+	purchasedBy: string; // User ID of the purchaser.
+	purchasedAt: Date;
+	redeemBy: Date; // The code can no longer be redeemed after this.
+
+	redeemedFor: string | null; // User or guild ID, depending on the tier type.
+	redeemedAt: Date | null;
+	endsAt: Date | null; // When the gifted premium runs out, set once redeemed.
+
+	checkoutSessionId: string;
+};
+
+export type PurchaseCreateInputData = {
+	customer: CustomerCreateData;
+	productId: string;
+
+	guildId?: string; // Required for guild products.
+	guildName?: string;
+
+	quantity?: number; // Only consumables can be bought more than once at a time, defaults to 1.
+	currency?: string;
+	metadata?: Record<string, string>;
+};
+
+export type Purchase = {
+	paymentIntentId: string;
+	productId: string;
+	kind: PurchaseKind;
+
+	type: TierType;
+	userId: string; // The purchaser.
+	guildId: string | null;
+
+	quantity: number; // Consumables credit quantity times the product's units.
+	amountCents: number;
+	currency: string;
+
+	purchasedAt: Date;
+	refundedAt: Date | null;
+};
+
+export type PurchaseEventData = {
+	purchase: Purchase;
+	product: OneTimeProduct;
+	raw: {
+		paymentIntent: Stripe.PaymentIntent;
+	};
+};
+
+export type PurchaseRefundedData = Omit<PurchaseEventData, 'raw'> & {
+	raw: {
+		charge: Stripe.Charge;
+	};
+};
+
+export type GiftPurchasedData = {
+	gift: Gift;
+	raw: {
+		session: Stripe.Checkout.Session;
+	};
+};
+
+export type GuildSlot = {
+	userId: string; // Subscriber the slot belongs to.
+	guildId: string;
+	assignedAt: Date;
+	cooldownEndsAt: Date; // The slot cannot be moved before this.
+};
+
+export type GuildSlotRemovedReason = 'unassigned' | 'premiumEnded' | 'slotsReduced';
+
+export type GuildSlotAssignedData = {
+	slot: GuildSlot;
+	entitlement: Entitlement<'user'>;
+};
+
+export type GuildSlotRemovedData = {
+	slot: GuildSlot;
+	reason: GuildSlotRemovedReason;
+};
+
+export type UsageReportData = ({ subscriptionId: string; } | { guildId: string; } | { userId: string; }) & {
+	addonId: string;
+	quantity: number;
+	timestamp?: Date; // Defaults to now, Stripe only accepts usage from the last 35 days.
+	idempotencyKey?: string; // Sends the report right away instead of batching it, reports reusing a key seen in the last 24 hours are dropped.
+};
+
+export type UsageTotal = {
+	addonId: string;
+	quantity: number;
+	amountCents: number;
+};
+
+export type ChangePreviewLine = {
+	description: string;
+	amountCents: number; // Negative for credits.
+	quantity: number;
+	isProration: boolean;
+};
+
+export type ChangePreview = {
+	currency: string;
+	lines: ChangePreviewLine[];
+	prorationCents: number; // Net of all proration lines, negative when the change credits more than it costs.
+	amountDueNowCents: number; // Charged right away by an immediate change, a negative proration is credited to the balance instead. Always 0 for other charge types.
+	nextRenewalCents: number; // Regular amount of the next invoice once the change is in place, before discounts and tax.
 };
 
 export type ChargeOptions = {
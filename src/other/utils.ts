@@ -1,3 +1,15 @@
+import { BillingInterval, PremiumTier } from './types';
+
+export const BillingIntervals: BillingInterval[] = ['weekly', 'monthly', 'quarterly', 'semiannual', 'yearly'];
+
+const DefaultIntervalMultipliers: Record<BillingInterval, number> = {
+	weekly: 0.25,
+	monthly: 1,
+	quarterly: 3,
+	semiannual: 6,
+	yearly: 10,
+};
+
 export function stringifyError<T>(error: T): unknown {
 	if (typeof error === 'string') return error;
 	else if (error instanceof Error) return { name: error.name, message: error.message, stack: error.stack };
@@ -12,3 +24,37 @@ export function stringifyError<T>(error: T): unknown {
 export function getYearlyMultiplier(times?: number): number {
 	return (times || 0) < 1 ? 10 : times || 10;
 }
+
+// Base currency first, followed by the additional currencies from currencyPrices.
+export function getCurrencyPrices(data: Pick<PremiumTier, 'priceCents' | 'currency' | 'currencyPrices'>, multiplier = 1): Record<string, number> {
+	const prices: Record<string, number> = { [(data.currency ?? 'usd').toLowerCase()]: Math.round(data.priceCents * multiplier) };
+
+	for (const [currency, priceCents] of Object.entries(data.currencyPrices ?? {})) {
+		prices[currency.toLowerCase()] ??= Math.round(priceCents * multiplier);
+	}
+
+	return prices;
+}
+
+export function getBillingIntervals(data: Pick<PremiumTier, 'intervals'>): BillingInterval[] {
+	const { intervals } = data;
+	if (!intervals) return ['monthly', 'yearly'];
+
+	return BillingIntervals.filter((interval) => interval in intervals);
+}
+
+export function getIntervalPrices(data: Pick<PremiumTier, 'priceCents' | 'currency' | 'currencyPrices' | 'yearlyMultiplier' | 'intervals'>, interval: BillingInterval): Record<string, number> {
+	const pricing = data.intervals?.[interval];
+	const multiplier = pricing?.multiplier ?? (interval === 'yearly' ? getYearlyMultiplier(data.yearlyMultiplier) : DefaultIntervalMultipliers[interval]);
+
+	const prices = getCurrencyPrices(data, multiplier);
+	const baseCurrency = (data.currency ?? 'usd').toLowerCase();
+
+	if (pricing?.priceCents) prices[baseCurrency] = pricing.priceCents;
+
+	for (const [currency, priceCents] of Object.entries(pricing?.currencyPrices ?? {})) {
+		if (currency.toLowerCase() in prices) prices[currency.toLowerCase()] = priceCents;
+	}
+
+	return prices;
+}
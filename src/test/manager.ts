@@ -0,0 +1,71 @@
+import { ConfigType, WebhookResponse } from '../other/types';
+import { FakeEvent, FakeStripe, Fixture } from './stripe';
+import { PremiumManager } from '../core/manager';
+import Stripe from 'stripe';
+
+type EventObject<T extends Stripe.Event.Type> = Extract<Stripe.Event, { type: T; }>['data']['object'];
+
+export const WebhookSecret = 'whsec_test';
+
+// The manager talks to its own FakeStripe, which already serves the products and prices of the configured tiers and addons unless withCatalog is false.
+export function createManager(config: Partial<ConfigType> = {}, withCatalog = true): { manager: PremiumManager; api: FakeStripe; } {
+	const api = new FakeStripe();
+	const manager = new PremiumManager({
+		stripeApiKey: 'sk_test_123',
+		stripeWebhookUrl: 'https://example.com/webhook',
+		stripeWebhookSecret: WebhookSecret,
+		premiumTiers: [
+			{ name: 'Basic', type: 'guild', tierId: 'basic', priceCents: 300, isActive: true },
+			{ name: 'Pro', type: 'guild', tierId: 'pro', priceCents: 500, isActive: true },
+		],
+		addons: [],
+		...config,
+		options: {
+			awaitListeners: true,
+			...config.options,
+			stripe: { ...config.options?.stripe, client: { httpClient: api.httpClient, maxNetworkRetries: 0 } },
+		},
+	});
+
+	if (withCatalog) api.addCatalog(manager.config);
+	return { manager, api };
+}
+
+// Signed like Stripe signs its deliveries, so the event goes through the public webhook handler.
+export async function sendWebhook(manager: PremiumManager, event: FakeEvent): Promise<WebhookResponse> {
+	const payload = JSON.stringify(event);
+	const signature = manager.stripeManager.stripe.webhooks.generateTestHeaderString({ payload, secret: WebhookSecret });
+
+	return manager.stripeManager.webhookHandler(payload, signature);
+}
+
+export function createEvent<T extends Stripe.Event.Type>(id: string, type: T, object: Fixture<EventObject<T>>, previous?: Fixture<EventObject<T>>): FakeEvent {
+	return { id, object: 'event', type, created: 1_700_000_000, data: { object, previous_attributes: previous } };
+}
+
+export function createSubscription(overrides: Fixture<Stripe.Subscription> = {}): Fixture<Stripe.Subscription> & { id: string; } {
+	return {
+		id: 'sub_1',
+		object: 'subscription',
+		customer: 'cus_1',
+		status: 'active',
+		schedule: null,
+		pause_collection: null,
+		cancel_at_period_end: false,
+		trial_end: null,
+		ended_at: null,
+		metadata: { tierId: 'pro', userId: 'user_1', guildId: 'guild_1', interval: 'monthly' },
+		items: {
+			object: 'list',
+			data: [{
+				id: 'si_1',
+				object: 'subscription_item',
+				quantity: 1,
+				price: { id: 'price_pro', object: 'price', product: 'prod_pro', metadata: { _internal_id: 'pro', _internal_which: 'tier' }, recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed', meter: null } },
+				current_period_start: 1_700_000_000,
+				current_period_end: 2_000_000_000,
+			}],
+		},
+		...overrides,
+	};
+}
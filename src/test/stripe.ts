@@ -0,0 +1,261 @@
+import { getBillingIntervals, getIntervalPrices } from '../other/utils';
+import { BillingInterval, ConfigType } from '../other/types';
+import Stripe from 'stripe';
+
+// Any part of a Stripe object, the fake API only serves what the code under test reads.
+export type Fixture<T> = T extends (infer U)[] ? Fixture<U>[] : T extends object ? { [K in keyof T]?: Fixture<T[K]> } : T;
+
+export type FakeEvent = {
+	id: string;
+	object: 'event';
+	type: Stripe.Event.Type;
+	created: number;
+	data: { object: object; previous_attributes?: object; };
+};
+
+export type FakeRequest = {
+	method: string;
+	path: string;
+	params: FakeParams;
+};
+
+export type FakeParams = { [key: string]: FakeValue; };
+type FakeValue = string | number | boolean | FakeValue[] | FakeParams;
+
+type FakeObject = { id: string; [key: string]: unknown; };
+type FakeRoute = { method: string; path: string | RegExp; respond: (request: FakeRequest) => object | Promise<object>; };
+
+type Collections = {
+	'products': Stripe.Product;
+	'prices': Stripe.Price;
+	'coupons': Stripe.Coupon;
+	'promotion_codes': Stripe.PromotionCode;
+	'customers': Stripe.Customer;
+	'subscriptions': Stripe.Subscription;
+	'subscription_schedules': Stripe.SubscriptionSchedule;
+	'payment_intents': Stripe.PaymentIntent;
+	'invoices': Stripe.Invoice;
+	'checkout/sessions': Stripe.Checkout.Session;
+	'billing/meters': Stripe.Billing.Meter;
+	'billing/meter_events': Stripe.Billing.MeterEvent;
+	'events': FakeEvent;
+};
+
+const ObjectNames: Record<keyof Collections, [object: string, prefix: string]> = {
+	'products': ['product', 'prod'],
+	'prices': ['price', 'price'],
+	'coupons': ['coupon', 'coupon'],
+	'promotion_codes': ['promotion_code', 'promo'],
+	'customers': ['customer', 'cus'],
+	'subscriptions': ['subscription', 'sub'],
+	'subscription_schedules': ['subscription_schedule', 'sub_sched'],
+	'payment_intents': ['payment_intent', 'pi'],
+	'invoices': ['invoice', 'in'],
+	'checkout/sessions': ['checkout.session', 'cs'],
+	'billing/meters': ['billing.meter', 'mtr'],
+	'billing/meter_events': ['billing.meter_event', 'mtrevt'],
+	'events': ['event', 'evt'],
+};
+
+const ListParams = ['limit', 'starting_after', 'ending_before', 'expand'];
+
+const Recurrence: Record<BillingInterval, Fixture<Stripe.Price.Recurring>> = {
+	weekly: { interval: 'week', interval_count: 1 },
+	monthly: { interval: 'month', interval_count: 1 },
+	quarterly: { interval: 'month', interval_count: 3 },
+	semiannual: { interval: 'month', interval_count: 6 },
+	yearly: { interval: 'year', interval_count: 1 },
+};
+
+// In-memory Stripe API, plugged into the SDK through its httpClient option so requests go through the real client.
+export class FakeStripe {
+	readonly requests: FakeRequest[] = [];
+	readonly httpClient = Stripe.createFetchHttpClient((url, init) => this.fetch(String(url), init));
+
+	private objects: Map<string, Map<string, FakeObject>> = new Map();
+	private routes: FakeRoute[] = [];
+	private nextId = 1;
+
+	public add<K extends keyof Collections>(collection: K, object: Fixture<Collections[K]> & { id: string; }): this {
+		const [name] = ObjectNames[collection];
+		this.getCollection(collection).set(object.id, { object: name, ...object });
+
+		return this;
+	}
+
+	public get(collection: keyof Collections, id: string): FakeObject | null {
+		return this.getCollection(collection).get(id) ?? null;
+	}
+
+	// Routes registered later win, so a test can replace the default behaviour of any endpoint.
+	public on(method: string, path: string | RegExp, respond: (request: FakeRequest) => object | Promise<object>): this {
+		this.routes.unshift({ method, path, respond });
+		return this;
+	}
+
+	// Products and prices the way catalog sync creates them, IDs are `prod_<id>`, `price_<id>` for monthly and `price_<id>_<interval>` for the other intervals.
+	public addCatalog(config: Pick<ConfigType, 'premiumTiers' | 'addons'>): this {
+		const items = [
+			...config.premiumTiers.map((tier) => ({ data: tier, id: tier.tierId, which: 'tier', metered: false })),
+			...config.addons.map((addon) => ({ data: addon, id: addon.addonId, which: 'addon', metered: Boolean(addon.metered) })),
+		];
+
+		for (const { data, id, which, metered } of items) {
+			const metadata = { _internal_id: id, _internal_which: which, _internal_type: data.type };
+			const intervals = getBillingIntervals(data);
+
+			this.add('products', { id: `prod_${id}`, name: data.name, active: data.isActive, metadata });
+
+			for (const interval of intervals) {
+				this.add('prices', {
+					id: interval === 'monthly' ? `price_${id}` : `price_${id}_${interval}`,
+					product: `prod_${id}`,
+					active: data.isActive,
+					currency: (data.currency ?? 'usd').toLowerCase(),
+					unit_amount: metered ? data.priceCents : Object.values(getIntervalPrices(data, interval))[0],
+					created: 1_600_000_000,
+					recurring: { ...Recurrence[interval], usage_type: metered ? 'metered' : 'licensed', meter: metered ? `mtr_${id}` : null },
+					metadata: { ...metadata, _internal_interval: interval, _internal_version: '1' },
+				});
+			}
+		}
+
+		return this;
+	}
+
+	private async fetch(url: string, init?: RequestInit): Promise<Response> {
+		const { pathname, searchParams } = new URL(url);
+		const method = init?.method ?? 'GET';
+
+		const request: FakeRequest = { method, path: pathname, params: parseParams(new URLSearchParams(typeof init?.body === 'string' ? init.body : searchParams)) };
+		this.requests.push(request);
+
+		try {
+			const route = this.routes.find((route) => route.method === method && (typeof route.path === 'string' ? route.path === pathname : route.path.test(pathname)));
+			return respond(200, route ? await route.respond(request) : this.handle(request));
+		} catch (error) {
+			const status = error instanceof FakeStripeError ? error.status : 500;
+			return respond(status, { error: { type: status === 500 ? 'api_error' : 'invalid_request_error', code: status === 404 ? 'resource_missing' : undefined, message: error instanceof Error ? error.message : String(error) } });
+		}
+	}
+
+	private handle({ method, path, params }: FakeRequest): object {
+		for (const [collection, [name, prefix]] of Object.entries(ObjectNames)) {
+			const match = path.match(new RegExp(`^/v1/${collection}(?:/([^/]+))?(?:/[a-z_]+)?$`));
+			if (!match) continue;
+
+			const objects = this.getCollection(collection);
+			const id = match[1];
+
+			if (!id && method === 'GET') return { object: 'list', url: path, has_more: false, data: [...objects.values()].filter((object) => matchesFilter(object, params)) };
+			else if (!id && method === 'POST') {
+				const created = { id: typeof params.id === 'string' ? params.id : `${prefix}_test_${this.nextId++}`, object: name, created: 1_700_000_000, ...params };
+				objects.set(created.id, created);
+				return created;
+			}
+
+			const object = id ? objects.get(id) : undefined;
+			if (!object) throw new FakeStripeError(404, `No such ${name}: '${id}'`);
+
+			if (method === 'DELETE') {
+				objects.delete(object.id);
+				return { id: object.id, object: name, deleted: true };
+			} else if (method === 'POST') {
+				const updated = applyParams(object, params);
+				objects.set(object.id, updated);
+				return updated;
+			} else return object;
+		}
+
+		throw new FakeStripeError(404, `Unrecognized request URL (${method}: ${path}).`);
+	}
+
+	private getCollection(collection: string): Map<string, FakeObject> {
+		let objects = this.objects.get(collection);
+		if (!objects) this.objects.set(collection, objects = new Map());
+
+		return objects;
+	}
+}
+
+export class FakeStripeError extends Error {
+	constructor (readonly status: number, message: string) {
+		super(message);
+	}
+}
+
+function respond(status: number, body: object): Response {
+	return Response.json(body, { status, headers: { 'request-id': 'req_test', 'stripe-should-retry': 'false' } });
+}
+
+// Stripe encodes parameters like `items[0][price]=price_1`, values are coerced back the way Stripe returns them.
+function parseParams(search: URLSearchParams): FakeParams {
+	const params: FakeParams = {};
+
+	for (const [key, value] of search) {
+		const path = key.replace(/\]/g, '').split('[');
+		const isMetadata = path.includes('metadata');
+
+		let target: FakeParams = params;
+		for (const [index, part] of path.entries()) {
+			if (index === path.length - 1) target[part] = isMetadata ? value : coerce(value);
+			else {
+				const next = target[part];
+				if (typeof next === 'object' && !Array.isArray(next)) target = next;
+				else target = target[part] = {};
+			}
+		}
+	}
+
+	return toArrays(params);
+}
+
+function toArrays(params: FakeParams): FakeParams {
+	const result: FakeParams = {};
+
+	for (const [key, value] of Object.entries(params)) {
+		if (typeof value !== 'object' || Array.isArray(value)) result[key] = value;
+		else if (Object.keys(value).length && Object.keys(value).every((index) => /^\d+$/.test(index))) result[key] = Object.values(toArrays(value));
+		else result[key] = toArrays(value);
+	}
+
+	return result;
+}
+
+// Only top-level values and metadata are applied, nested parameters like `items` differ from the objects Stripe returns.
+function applyParams(object: FakeObject, params: FakeParams): FakeObject {
+	const updated = { ...object };
+
+	for (const [key, value] of Object.entries(params)) {
+		if (key === 'metadata' && typeof value === 'object') updated.metadata = { ...(object.metadata instanceof Object ? object.metadata : {}), ...value };
+		else if (typeof value !== 'object') updated[key] = value;
+	}
+
+	return updated;
+}
+
+function coerce(value: string): FakeValue {
+	if (value === 'true' || value === 'false') return value === 'true';
+	else if (/^\d+$/.test(value)) return Number(value);
+	else return value;
+}
+
+// Only plain list filters like `product` or `customer` are applied, `status=all` and range filters are ignored.
+function matchesFilter(object: FakeObject, params: FakeParams): boolean {
+	return Object.entries(params).every(([key, value]) => {
+		if (key === 'price' && object.object === 'subscription') return hasPrice(object, value);
+		else if (ListParams.includes(key) || typeof value === 'object' || value === 'all' || !(key in object)) return true;
+
+		const field = object[key];
+		if (field instanceof Object && 'id' in field) return field.id === value;
+		else return field === value;
+	});
+}
+
+// Subscriptions are listed by the price of any of their items.
+function hasPrice(subscription: FakeObject, priceId: FakeValue): boolean {
+	const { items } = subscription;
+	if (!(items instanceof Object) || !('data' in items) || !Array.isArray(items.data)) return false;
+
+	return items.data.some((item: unknown) => item instanceof Object && 'price' in item && item.price instanceof Object && 'id' in item.price && item.price.id === priceId);
+}